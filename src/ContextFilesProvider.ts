@@ -1,45 +1,135 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { DEFAULT_EXCLUDE_PATTERNS, matchesAnyGlob } from './excludeGlobs';
+import { log } from './outputChannel';
 
 // --- Helper Functions to manage Settings Array ---
 
-function getContextFiles(): string[] {
+export function getContextFiles(): string[] {
     const config = vscode.workspace.getConfiguration("codeSuggestions");
     return config.get<string[]>("contextFiles", []);
 }
 
-async function setContextFiles(files: string[]) {
+export async function setContextFiles(files: string[]) {
     const config = vscode.workspace.getConfiguration("codeSuggestions");
     await config.update("contextFiles", files, vscode.ConfigurationTarget.Workspace);
 }
 
+/**
+ * Converts a file URI into the form stored in settings:
+ * relative to its workspace folder (more portable), or the full path for files outside the workspace.
+ */
+export function toContextFilePath(uri: vscode.Uri): string {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+    if (workspaceFolder) {
+        return path.relative(workspaceFolder.uri.fsPath, uri.fsPath);
+    }
+    return uri.fsPath;
+}
+
+// Globs of files that never get suggestions and are never sent as context (`codeSuggestions.exclude`)
+export function getExcludePatterns(): string[] {
+    const config = vscode.workspace.getConfiguration("codeSuggestions");
+    return config.get<string[]>("exclude", DEFAULT_EXCLUDE_PATTERNS);
+}
+
+export function isExcludedFile(uri: vscode.Uri): boolean {
+    // Paths are case-insensitive on Windows
+    return matchesAnyGlob(toContextFilePath(uri), getExcludePatterns(), process.platform === "win32");
+}
+
+/**
+ * Turns a path from the `codeSuggestions.contextFiles` setting into a URI.
+ * Relative paths are tried against every workspace folder, the first existing match wins.
+ * Returns undefined when the file cannot be found.
+ */
+export async function resolveContextFileUri(filePath: string): Promise<vscode.Uri | undefined> {
+    const candidates: vscode.Uri[] = [];
+
+    if (path.isAbsolute(filePath)) {
+        candidates.push(vscode.Uri.file(filePath));
+    } else {
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            candidates.push(vscode.Uri.joinPath(folder.uri, filePath));
+        }
+    }
+
+    for (const uri of candidates) {
+        if (await isFile(uri)) {
+            return uri;
+        }
+    }
+    return undefined;
+}
+
+// False for folders and for what does not exist
+async function isFile(uri: vscode.Uri): Promise<boolean> {
+    try {
+        return ((await vscode.workspace.fs.stat(uri)).type & vscode.FileType.File) !== 0;
+    } catch {
+        return false;
+    }
+}
+
 // --- Tree Item Class ---
 
-class ContextFileItem extends vscode.TreeItem {
-  constructor(public readonly label: string, public readonly fullPath: string) {
+export class ContextFileItem extends vscode.TreeItem {
+  constructor(public readonly label: string, public readonly fullPath: string, public readonly uri?: vscode.Uri) {
     super(path.basename(label), vscode.TreeItemCollapsibleState.None);
-    this.description = path.dirname(label); // Show the directory path
-    this.tooltip = fullPath;
-    this.iconPath = vscode.ThemeIcon.File;
     this.contextValue = 'contextFileItem'; // Used for the context menu
+
+    if (uri && isExcludedFile(uri)) {
+      // Pinned before it matched `codeSuggestions.exclude`: kept in the list, but not sent
+      this.description = `${path.dirname(label)} (excluded, not sent)`;
+      this.tooltip = `Matches codeSuggestions.exclude: ${uri.fsPath}`;
+      this.resourceUri = uri;
+      this.iconPath = new vscode.ThemeIcon('circle-slash');
+      this.command = { command: 'vscode.open', title: 'Open File', arguments: [uri] };
+    } else if (uri) {
+      this.description = path.dirname(label); // Show the directory path
+      this.tooltip = uri.fsPath;
+      this.resourceUri = uri;
+      this.iconPath = vscode.ThemeIcon.File;
+      this.command = { command: 'vscode.open', title: 'Open File', arguments: [uri] };
+    } else {
+      // The pinned path no longer exists, keep it visible so it can be removed
+      this.description = `${path.dirname(label)} (missing)`;
+      this.tooltip = `File not found: ${fullPath}`;
+      this.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+    }
   }
 }
 
 // --- View Provider Class ---
 
-export class ContextFilesProvider implements vscode.TreeDataProvider<ContextFileItem> {
+// Mime type for items dragged inside our own tree (must be lower case: application/vnd.code.tree.<viewId>)
+const TREE_MIME_TYPE = 'application/vnd.code.tree.codesuggestions.contextview';
+
+export class ContextFilesProvider implements vscode.TreeDataProvider<ContextFileItem>, vscode.TreeDragAndDropController<ContextFileItem>, vscode.Disposable {
   private _onDidChangeTreeData: vscode.EventEmitter<ContextFileItem | undefined | void> = new vscode.EventEmitter<ContextFileItem | undefined | void>();
   readonly onDidChangeTreeData: vscode.Event<ContextFileItem | undefined | void> = this._onDidChangeTreeData.event;
 
+  // VS Code requires the extension to state what kinds of data it accepts and produces
+  // 'text/uri-list' is used when dragging files from the Explorer
+  readonly dropMimeTypes = [TREE_MIME_TYPE, 'text/uri-list'];
+  readonly dragMimeTypes = [TREE_MIME_TYPE];
+
+  private readonly configListener: vscode.Disposable;
+
   constructor() {
     // Listen for changes in our settings to refresh the view
-    vscode.workspace.onDidChangeConfiguration(e => {
-        if (e.affectsConfiguration("codeSuggestions.contextFiles")) {
+    this.configListener = vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration("codeSuggestions.contextFiles") || e.affectsConfiguration("codeSuggestions.exclude")) {
             this.refresh();
         }
     });
   }
 
+  dispose(): void {
+    this.configListener.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+
   // Reloads the view
   refresh(): void {
     this._onDidChangeTreeData.fire();
@@ -49,61 +139,112 @@ export class ContextFilesProvider implements vscode.TreeDataProvider<ContextFile
     return element;
   }
 
-  getChildren(element?: ContextFileItem): Thenable<ContextFileItem[]> {
+  async getChildren(element?: ContextFileItem): Promise<ContextFileItem[]> {
     if (element) {
-      return Promise.resolve([]);
+      return [];
     }
-    
-    // Read the file paths from settings
+
+    // Read the file paths from settings, in prompt priority order
     const files = getContextFiles();
-    
-    // Convert relative paths (from settings) to TreeItems for display
-    const items = files.map(filePath => new ContextFileItem(filePath, filePath));
-    return Promise.resolve(items);
+
+    // Resolve each path so files that no longer exist can be flagged
+    return Promise.all(files.map(async filePath =>
+      new ContextFileItem(filePath, filePath, await resolveContextFileUri(filePath))
+    ));
+  }
+
+  // --- LIST MANAGEMENT ---
+
+  // Pins the given files; folders (e.g. dragged from the Explorer) and what no longer exists are skipped
+  async addFiles(candidates: vscode.Uri[]): Promise<void> {
+    const uris = (await Promise.all(candidates.map(async uri => await isFile(uri) ? uri : undefined)))
+      .filter((uri): uri is vscode.Uri => uri !== undefined);
+    if (uris.length === 0) {
+      return;
+    }
+    const excluded = uris.filter(uri => isExcludedFile(uri));
+    if (excluded.length > 0) {
+      vscode.window.showWarningMessage(
+        `Code Suggestions: not pinned, matches codeSuggestions.exclude: ${excluded.map(uri => path.basename(uri.fsPath)).join(', ')}`
+      );
+    }
+    const newFiles = uris.filter(uri => !excluded.includes(uri)).map(uri => toContextFilePath(uri));
+    const currentFiles = getContextFiles();
+    const updatedFiles = Array.from(new Set([...currentFiles, ...newFiles])); // Use Set to ensure unique paths
+
+    await setContextFiles(updatedFiles);
+    this.refresh();
+  }
+
+  async removeFiles(filePaths: string[]): Promise<void> {
+    const updatedFiles = getContextFiles().filter(file => !filePaths.includes(file));
+    await setContextFiles(updatedFiles);
+    this.refresh();
+  }
+
+  async clear(): Promise<void> {
+    await setContextFiles([]);
+    this.refresh();
+  }
+
+  /**
+   * Moves the given paths in front of `target` (or to the end when there is no target).
+   * The list order is the prompt priority: earlier files get their share of the budget first.
+   */
+  async moveFiles(filePaths: string[], target?: string): Promise<void> {
+    const remaining = getContextFiles().filter(file => !filePaths.includes(file));
+    const targetIndex = target !== undefined ? remaining.indexOf(target) : -1;
+    const insertAt = targetIndex === -1 ? remaining.length : targetIndex;
+
+    remaining.splice(insertAt, 0, ...filePaths);
+    await setContextFiles(remaining);
+    this.refresh();
   }
 
   // --- DRAG AND DROP IMPLEMENTATION ---
-  
-  // VS Code requires the extension to state what kinds of data it accepts
-  getDropMimeTypes(): readonly string[] {
-    // VS Code uses 'text/uri-list' when dragging files from the Explorer
-    return ['text/uri-list']; 
+
+  // Called when items of our own tree are dragged (used for reordering)
+  handleDrag(source: readonly ContextFileItem[], dataTransfer: vscode.DataTransfer): void {
+    dataTransfer.set(TREE_MIME_TYPE, new vscode.DataTransferItem(source.map(item => item.fullPath)));
   }
 
   // This function handles the actual drop event
-  async handleDrag(dataTransfer: vscode.DataTransfer, token: vscode.CancellationToken): Promise<void> {
+  async handleDrop(target: ContextFileItem | undefined, dataTransfer: vscode.DataTransfer, token: vscode.CancellationToken): Promise<void> {
+    // 1. Reordering inside the view
+    const treeItem = dataTransfer.get(TREE_MIME_TYPE);
+    if (treeItem) {
+      const draggedPaths = treeItem.value as string[];
+      if (target && draggedPaths.includes(target.fullPath)) {
+        return;
+      }
+      await this.moveFiles(draggedPaths, target?.fullPath);
+      return;
+    }
+
+    // 2. Files dropped from the Explorer
     const item = dataTransfer.get('text/uri-list');
     if (item) {
       const uriList = await item.asString();
-      const newFiles: string[] = [];
-      
+      if (token.isCancellationRequested) {
+        return;
+      }
+      const droppedUris: vscode.Uri[] = [];
+
       // Parse the URI list (may contain multiple files dropped)
-      uriList.split('\n').forEach(line => {
+      uriList.split(/\r?\n/).forEach(line => {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('#')) {
+          return; // Empty lines and comments are allowed in text/uri-list
+        }
         try {
           // Convert the URI string back into a URI object
-          const uri = vscode.Uri.parse(line.trim());
-          
-          // To store the path in settings, we need it relative to the workspace root
-          const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
-          if (workspaceFolder) {
-            // Store the path relative to the workspace folder path (more portable)
-            const relativePath = path.relative(workspaceFolder.uri.fsPath, uri.fsPath);
-            newFiles.push(relativePath);
-          } else {
-            // For files outside the workspace, we store the full path
-            newFiles.push(uri.fsPath);
-          }
+          droppedUris.push(vscode.Uri.parse(trimmed, true));
         } catch (e) {
-          console.error("Failed to parse dropped URI:", line);
+          log.error("Failed to parse dropped URI:", line);
         }
       });
 
-      // Get current list, append new files, and update settings
-      const currentFiles = getContextFiles();
-      const updatedFiles = Array.from(new Set([...currentFiles, ...newFiles])); // Use Set to ensure unique paths
-      
-      await setContextFiles(updatedFiles);
-      this.refresh();
+      await this.addFiles(droppedUris);
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import { remainingAfterTyped, SuggestionEdit } from './suggestionEdit';
+
+// How long a cancelled request keeps running in case the next keystroke adopts it
+const ADOPTION_GRACE_MS = 150;
+
+/**
+ * A suggestion request that is still running (or just finished) for a cursor position.
+ * Keystrokes that only extend the text before the cursor can adopt it instead of sending
+ * a new request: when the typed characters match the start of the suggestion, the rest is served.
+ * The request is aborted once nobody is waiting for it anymore.
+ */
+export class InflightRequest {
+  private readonly uri: string;
+  private readonly lineTextBefore: string;
+  private subscribers = 0;
+
+  constructor(
+    document: vscode.TextDocument,
+    private readonly start: vscode.Position,
+    private readonly abortController: AbortController,
+    readonly result: Promise<SuggestionEdit[]>
+  ) {
+    this.uri = document.uri.toString();
+    this.lineTextBefore = document.lineAt(start.line).text.substring(0, start.character);
+  }
+
+  // Keeps the request alive while the caller behind `token` is waiting for it
+  attach(token: vscode.CancellationToken): void {
+    this.subscribers++;
+    const cancellation = token.onCancellationRequested(() => {
+      cancellation.dispose();
+      this.release();
+    });
+    // Failures are reported to whoever awaits the result, not here
+    this.result.then(() => cancellation.dispose(), () => cancellation.dispose());
+  }
+
+  private release(): void {
+    this.subscribers--;
+    if (this.subscribers > 0) {
+      return;
+    }
+    // Give the next keystroke a moment to adopt the request before aborting it
+    setTimeout(() => {
+      if (this.subscribers === 0) {
+        this.abortController.abort();
+      }
+    }, ADOPTION_GRACE_MS);
+  }
+
+  /**
+   * Serves a request at `position` from this one, if the user only typed more characters on the same line.
+   * Returns the remaining text of the matching suggestions, or undefined when a fresh request is needed.
+   */
+  async serve(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<SuggestionEdit[] | undefined> {
+    if (
+      this.abortController.signal.aborted ||
+      document.uri.toString() !== this.uri ||
+      position.line !== this.start.line ||
+      position.character < this.start.character ||
+      document.lineAt(position.line).text.substring(0, this.start.character) !== this.lineTextBefore
+    ) {
+      return undefined;
+    }
+
+    const typed = document.getText(new vscode.Range(this.start, position));
+    this.attach(token);
+    const remaining = remainingAfterTyped(await this.result, typed);
+
+    return remaining.length > 0 ? remaining : undefined;
+  }
+}
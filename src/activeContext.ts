@@ -0,0 +1,80 @@
+import { findIndentationScope, ImportStatement, toComment } from './languageSupport';
+
+// --- Active File Context (shared by the extension and the evaluation harness, see src/eval) ---
+
+export const FILE_SEPARATOR = "\n\n--- FILE: ";
+export const CURSOR_MARKER = "<|CURSOR|>"; // A unique token to mark the position
+
+// Characters sent on each side of the cursor when it is not inside any scope
+export const DEFAULT_WINDOW_CHARS = 1000;
+
+// A part of the document, as character offsets
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export interface ActiveContextInput {
+  text: string;
+  offset: number;              // The cursor
+  languageId: string;
+  imports: ImportStatement[];  // See `extractImportStatements`
+  scope?: TextSpan;            // The enclosing symbol or indented block, none at the top level
+  windowChars?: number;
+}
+
+export interface ActiveContext {
+  promptContext: string;       // Imports and scope (or the window) with the cursor marker
+  scopeText: string;           // The scope (or window) without the marker, for finding similar snippets
+}
+
+/**
+ * Finds the innermost symbol containing the cursor: a method rather than its class.
+ * Works on any symbol tree (VS Code's `DocumentSymbol`s, or the parser's in the evaluation harness).
+ */
+export function findDeepestSymbol<T extends { children: T[] }>(symbols: T[], containsCursor: (symbol: T) => boolean): T | undefined {
+  for (const symbol of symbols) {
+    if (containsCursor(symbol)) {
+      // If this symbol has children (e.g., Class has Methods), look deeper
+      const child = symbol.children.length > 0 ? findDeepestSymbol(symbol.children, containsCursor) : undefined;
+      // If no children contain the cursor, this symbol is the deepest one
+      return child ?? symbol;
+    }
+  }
+  return undefined;
+}
+
+// The indented block around the cursor (see `findIndentationScope`), for languages without a symbol provider
+export function indentationScopeAt(text: string, offset: number): TextSpan | undefined {
+  const lines = text.split('\n');
+  const scope = findIndentationScope(lines, text.substring(0, offset).split('\n').length - 1);
+  if (!scope) {
+    return undefined;
+  }
+  const lineStart = (line: number) => lines.slice(0, line).reduce((sum, text) => sum + text.length + 1, 0);
+  return { start: lineStart(scope.start), end: lineStart(scope.end) + lines[scope.end].length };
+}
+
+/**
+ * The active file's part of the context. Inside a scope only the imports and that scope are sent,
+ * with a comment standing in for the rest of the file; at the top level, a window around the cursor.
+ */
+export function buildActiveContext(input: ActiveContextInput): ActiveContext {
+  const { text, offset, scope } = input;
+
+  if (scope) {
+    const scopeText = text.substring(scope.start, scope.end);
+    const relativeCursorOffset = offset - scope.start;
+    const textWithCursor = scopeText.substring(0, relativeCursorOffset) + CURSOR_MARKER + scopeText.substring(relativeCursorOffset);
+
+    const importsText = input.imports.map(statement => statement.text).join('\n');
+    const hiddenMarker = toComment(input.languageId, "... (irrelevant code hidden) ...");
+    return { promptContext: `${importsText}\n\n${hiddenMarker}\n\n${textWithCursor}`, scopeText };
+  }
+
+  const windowChars = input.windowChars ?? DEFAULT_WINDOW_CHARS;
+  const start = Math.max(0, offset - windowChars);
+  const end = Math.min(text.length, offset + windowChars);
+  const slice = text.substring(start, end);
+  return { promptContext: slice.substring(0, offset - start) + CURSOR_MARKER + slice.substring(offset - start), scopeText: slice };
+}
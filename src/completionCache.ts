@@ -0,0 +1,77 @@
+import { createHash } from 'crypto';
+import { LruCache } from './lruCache';
+import { remainingAfterTyped, SuggestionEdit } from './suggestionEdit';
+
+// How much text around the cursor identifies a suggestion
+const PREFIX_WINDOW_CHARS = 1500;
+const SUFFIX_WINDOW_CHARS = 500;
+
+// How many characters the user may type ahead into a cached suggestion and still get the rest
+const MAX_TYPED_AHEAD_CHARS = 64;
+
+/**
+ * Caches finished suggestions (all candidates of a request) by a hash of the nearby prefix, suffix, file and model.
+ * Lookups also try the positions a few characters back on the same line, so typing characters
+ * that match the start of a cached suggestion serves the rest of it without a network call.
+ */
+export class CompletionCache {
+  private readonly cache: LruCache<string, SuggestionEdit[]>;
+
+  constructor(maxEntries: number) {
+    this.cache = new LruCache(maxEntries);
+  }
+
+  get hits(): number {
+    return this.cache.hits;
+  }
+
+  get misses(): number {
+    return this.cache.misses;
+  }
+
+  // `textBefore` is the document text before the cursor, `textAfter` the text after it
+  keyFor(file: string, textBefore: string, textAfter: string, model: string): string {
+    return createHash('sha1')
+      .update(file).update('\0')
+      .update(model).update('\0')
+      .update(textBefore.slice(-PREFIX_WINDOW_CHARS)).update('\0')
+      .update(textAfter.slice(0, SUFFIX_WINDOW_CHARS))
+      .digest('hex');
+  }
+
+  store(key: string, suggestions: SuggestionEdit[]): void {
+    const nonEmpty = suggestions.filter(suggestion => suggestion.insertText.length > 0);
+    if (nonEmpty.length > 0) {
+      this.cache.set(key, nonEmpty);
+    }
+  }
+
+  /**
+   * Returns the parts of the cached suggestions that are still ahead of the cursor,
+   * or undefined when nothing cached matches what was typed since.
+   */
+  lookup(file: string, textBefore: string, textAfter: string, model: string): SuggestionEdit[] | undefined {
+    if (this.cache.maxEntries <= 0) {
+      return undefined;
+    }
+
+    // Only characters typed on the current line count as typed ahead
+    const lineStart = textBefore.lastIndexOf('\n') + 1;
+    const maxTyped = Math.min(MAX_TYPED_AHEAD_CHARS, textBefore.length - lineStart);
+
+    for (let typedLength = 0; typedLength <= maxTyped; typedLength++) {
+      const requestedAt = textBefore.length - typedLength;
+      const typed = textBefore.substring(requestedAt);
+      const key = this.keyFor(file, textBefore.substring(0, requestedAt), textAfter, model);
+      const remaining = remainingAfterTyped(this.cache.peek(key) ?? [], typed)
+        .filter(suggestion => suggestion.insertText.length > 0);
+
+      if (remaining.length > 0) {
+        this.cache.get(key); // Counts the hit and marks the entry as recently used
+        return remaining;
+      }
+    }
+    this.cache.misses++;
+    return undefined;
+  }
+}
@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import { getContextFiles, isExcludedFile, resolveContextFileUri } from './ContextFilesProvider';
+import { log } from './outputChannel';
+
+// --- Types ---
+
+export interface PinnedContextFile {
+    path: string;     // The path as stored in settings (relative or absolute)
+    content: string;  // File text, already cut to the per-file budget
+}
+
+const TRUNCATION_MARKER = "\n// ... (truncated) ...";
+
+// --- Reading ---
+
+/**
+ * Cuts the text to at most `maxChars`, marker included, snapping back to the last full line
+ * so the model never sees half a statement at the end of a pinned file.
+ */
+export function truncateToLines(text: string, maxChars: number): string {
+    if (text.length <= maxChars) {
+        return text;
+    }
+    const budget = maxChars - TRUNCATION_MARKER.length;
+    if (budget <= 0) {
+        return "";
+    }
+    const cut = text.substring(0, budget);
+    const lastNewline = cut.lastIndexOf('\n');
+    return (lastNewline > 0 ? cut.substring(0, lastNewline) : cut) + TRUNCATION_MARKER;
+}
+
+async function readText(uri: vscode.Uri): Promise<string> {
+    // Prefer the open editor buffer so unsaved edits are part of the context
+    const openDocument = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+    if (openDocument) {
+        return openDocument.getText();
+    }
+    const bytes = await vscode.workspace.fs.readFile(uri);
+    return new TextDecoder("utf-8").decode(bytes);
+}
+
+/**
+ * Reads every pinned context file in settings order, respecting the per-file
+ * and total character budgets. The active document is skipped because it is
+ * always sent separately with the cursor marker.
+ */
+export async function readPinnedContextFiles(activeUri?: vscode.Uri): Promise<PinnedContextFile[]> {
+    const config = vscode.workspace.getConfiguration("codeSuggestions");
+    const perFileLimit = config.get<number>("contextFileMaxChars", 2000);
+    let remaining = config.get<number>("contextTotalMaxChars", 6000);
+
+    const result: PinnedContextFile[] = [];
+
+    for (const filePath of getContextFiles()) {
+        if (remaining <= 0) {
+            break;
+        }
+
+        const uri = await resolveContextFileUri(filePath);
+        if (!uri) {
+            log.warn(`Context file not found: ${filePath}`);
+            continue;
+        }
+        if (activeUri && uri.toString() === activeUri.toString()) {
+            continue;
+        }
+        if (isExcludedFile(uri)) {
+            continue; // Shown as "excluded" in the Context Files view
+        }
+
+        try {
+            const text = await readText(uri);
+            const content = truncateToLines(text, Math.min(perFileLimit, remaining));
+            if (!content && text) {
+                break; // Not even the truncation marker fits into what is left
+            }
+            remaining -= content.length;
+            result.push({ path: filePath, content });
+        } catch (err) {
+            log.error(`Failed to read context file ${filePath}:`, err);
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,359 @@
+import * as vscode from 'vscode';
+import { isExcludedFile, toContextFilePath } from './ContextFilesProvider';
+import { ImportStatement } from './languageSupport';
+
+// --- Types ---
+
+export interface CrossFileBlock {
+    path: string;     // Header shown to the model ("file (signatures)" or "file:12-30")
+    content: string;
+}
+
+// --- Constants ---
+
+const MAX_IMPORTED_SYMBOLS = 12;
+const MAX_DECLARATION_LINES = 30;   // Interfaces/types longer than this are cut
+const LOOKUP_TIMEOUT_MS = 500;      // Definition lookups are skipped if the language server is slow
+
+const SNIPPET_LINES = 20;           // Size of the sliding window over open tabs
+const SNIPPET_STRIDE = 10;
+const MAX_SNIPPETS = 3;
+const MIN_SIMILARITY = 0.1;
+
+const NOTEBOOK_MAX_CHARS = 3000;    // Cells above the current one, closest first
+
+// --- Imported Symbol Signatures ---
+
+function withTimeout<T>(promise: Thenable<T>, fallback: T): Promise<T> {
+    return Promise.race([
+        Promise.resolve(promise),
+        new Promise<T>(resolve => setTimeout(() => resolve(fallback), LOOKUP_TIMEOUT_MS))
+    ]);
+}
+
+// Finds the symbol whose name sits at the given position (where a definition points to)
+function findSymbolAt(symbols: vscode.DocumentSymbol[], position: vscode.Position): vscode.DocumentSymbol | undefined {
+    for (const symbol of symbols) {
+        if (symbol.range.contains(position)) {
+            if (symbol.selectionRange.contains(position)) {
+                return symbol;
+            }
+            return findSymbolAt(symbol.children, position) ?? symbol;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * The part of a declaration the model needs to use it: full text for types,
+ * the header for functions, the header plus member signatures for classes.
+ */
+function declarationSignature(document: vscode.TextDocument, symbol: vscode.DocumentSymbol): string {
+    const text = document.getText(symbol.range);
+    const header = (body: string) => {
+        const braceIndex = body.indexOf('{');
+        return (braceIndex === -1 ? body.split('\n')[0] : body.substring(0, braceIndex)).trimEnd();
+    };
+
+    switch (symbol.kind) {
+        case vscode.SymbolKind.Interface:
+        case vscode.SymbolKind.Enum:
+        case vscode.SymbolKind.Struct:
+        case vscode.SymbolKind.TypeParameter: {
+            const lines = text.split('\n');
+            return lines.length > MAX_DECLARATION_LINES
+                ? [...lines.slice(0, MAX_DECLARATION_LINES), '  // ...'].join('\n')
+                : text;
+        }
+        case vscode.SymbolKind.Class: {
+            const members = symbol.children
+                .filter(child => !child.name.startsWith('#') && !/^\s*private\b/.test(document.lineAt(child.range.start).text))
+                .map(child => `  ${header(document.getText(child.range)).trim()};`);
+            return `${header(text)} {\n${members.join('\n')}\n}`;
+        }
+        case vscode.SymbolKind.Function:
+        case vscode.SymbolKind.Method:
+        case vscode.SymbolKind.Constructor:
+            return `${header(text)};`;
+        default:
+            return text.split('\n')[0];
+    }
+}
+
+type ResolvedSignature = { uri: vscode.Uri; signature: string } | undefined;
+
+async function resolveSignature(document: vscode.TextDocument, name: string, offset: number): Promise<ResolvedSignature> {
+    // 1. Ask the language server where the imported name is defined
+    const definitions = await withTimeout(
+        vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[]>(
+            'vscode.executeDefinitionProvider', document.uri, document.positionAt(offset)
+        ),
+        undefined
+    );
+    let location = definitions
+        ?.map(definition => 'targetUri' in definition
+            ? new vscode.Location(definition.targetUri, definition.targetSelectionRange ?? definition.targetRange)
+            : definition)
+        .find(definition => definition.uri.toString() !== document.uri.toString());
+
+    // 2. Fall back to the workspace symbol index
+    if (!location) {
+        const symbols = await withTimeout(
+            vscode.commands.executeCommand<vscode.SymbolInformation[]>('vscode.executeWorkspaceSymbolProvider', name),
+            undefined
+        );
+        location = symbols?.find(symbol => symbol.name === name)?.location;
+    }
+    if (!location || location.uri.scheme !== 'file' || location.uri.fsPath.includes('node_modules')) {
+        return undefined;
+    }
+
+    const target = await vscode.workspace.openTextDocument(location.uri);
+    const targetSymbols = await withTimeout(
+        vscode.commands.executeCommand<vscode.DocumentSymbol[]>('vscode.executeDocumentSymbolProvider', target.uri),
+        undefined
+    );
+    const symbol = targetSymbols ? findSymbolAt(targetSymbols, location.range.start) : undefined;
+    if (!symbol) {
+        return undefined;
+    }
+    return { uri: target.uri, signature: declarationSignature(target, symbol) };
+}
+
+// Resolved signatures per document and imported name, kept while the document's import statements stay the same
+const signatureCache = new Map<string, { importsText: string; byName: Map<string, Promise<ResolvedSignature>> }>();
+
+function cachedSignatures(document: vscode.TextDocument, imports: ImportStatement[]): Map<string, Promise<ResolvedSignature>> {
+    const key = document.uri.toString();
+    const importsText = imports.map(statement => statement.text).join('\n');
+    let cached = signatureCache.get(key);
+    if (cached?.importsText !== importsText) {
+        cached = { importsText, byName: new Map() };
+        signatureCache.set(key, cached);
+    }
+    return cached.byName;
+}
+
+function forgetSignaturesFrom(uri: vscode.Uri): void {
+    for (const { byName } of signatureCache.values()) {
+        for (const [name, signature] of byName) {
+            signature.then(resolved => {
+                if (resolved?.uri.toString() === uri.toString() && byName.get(name) === signature) {
+                    byName.delete(name);
+                }
+            });
+        }
+    }
+}
+
+/**
+ * Signatures and type declarations of the imported symbols, grouped per source file.
+ * Names that are used in `scopeText` (the code around the cursor) are resolved first.
+ * Lookups are cached until the document's imports change, or the file a signature comes from is saved.
+ */
+export async function collectImportedSignatures(
+    document: vscode.TextDocument,
+    imports: ImportStatement[],
+    scopeText: string
+): Promise<CrossFileBlock[]> {
+    const names = imports.flatMap(statement => statement.names);
+    const used = names.filter(entry => new RegExp(`\\b${entry.name.replace(/\$/g, '\\$')}\\b`).test(scopeText));
+    const selected = (used.length > 0 ? used : names).slice(0, MAX_IMPORTED_SYMBOLS);
+
+    const byName = cachedSignatures(document, imports);
+    const resolved = await Promise.all(selected.map(entry => {
+        let signature = byName.get(entry.name);
+        if (!signature) {
+            signature = resolveSignature(document, entry.name, entry.offset).catch(() => undefined);
+            byName.set(entry.name, signature);
+        }
+        return signature;
+    }));
+
+    const byFile = new Map<string, string[]>();
+    for (const entry of resolved) {
+        if (!entry || isExcludedFile(entry.uri)) {
+            continue;
+        }
+        const path = toContextFilePath(entry.uri);
+        const signatures = byFile.get(path) ?? [];
+        if (!signatures.includes(entry.signature)) {
+            signatures.push(entry.signature);
+        }
+        byFile.set(path, signatures);
+    }
+
+    return Array.from(byFile, ([path, signatures]) => ({
+        path: `${path} (signatures)`,
+        content: signatures.join('\n\n')
+    }));
+}
+
+// --- Open Tab Snippets ---
+
+// When each document was last edited, so recently touched tabs rank higher
+const lastEditTimes = new Map<string, number>();
+
+export function registerEditTracking(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeTextDocument(e => {
+            if (e.contentChanges.length > 0) {
+                lastEditTimes.set(e.document.uri.toString(), Date.now());
+            }
+        }),
+        vscode.workspace.onDidCloseTextDocument(document => {
+            lastEditTimes.delete(document.uri.toString());
+            signatureCache.delete(document.uri.toString());
+        }),
+        // Signatures declared in a saved file may have changed
+        vscode.workspace.onDidSaveTextDocument(document => forgetSignaturesFrom(document.uri))
+    );
+}
+
+function identifierSet(text: string): Set<string> {
+    return new Set(text.match(/[A-Za-z_$][\w$]{2,}/g) ?? []);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) {
+        return 0;
+    }
+    let shared = 0;
+    for (const token of a) {
+        if (b.has(token)) {
+            shared++;
+        }
+    }
+    return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Snippets from the other open tabs that look most like the code near the cursor
+ * (Jaccard similarity of identifiers over a sliding window), boosted for recently edited files.
+ */
+export function collectOpenTabSnippets(
+    document: vscode.TextDocument,
+    nearCursorText: string,
+    excludedPaths: string[]
+): CrossFileBlock[] {
+    const query = identifierSet(nearCursorText);
+    const openUris = vscode.window.tabGroups.all
+        .flatMap(group => group.tabs)
+        .map(tab => tab.input instanceof vscode.TabInputText ? tab.input.uri : undefined)
+        .filter((uri): uri is vscode.Uri => !!uri && uri.toString() !== document.uri.toString());
+
+    const now = Date.now();
+    const candidates: { path: string; startLine: number; content: string; score: number }[] = [];
+
+    for (const uri of new Set(openUris.map(uri => uri.toString()))) {
+        const tabDocument = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri);
+        if (!tabDocument) {
+            continue; // Tab was never loaded in this session, skip rather than reading from disk
+        }
+        const path = toContextFilePath(tabDocument.uri);
+        if (excludedPaths.includes(path) || isExcludedFile(tabDocument.uri)) {
+            continue;
+        }
+
+        // Edited in the last 10 minutes: up to +50% score
+        const editedAt = lastEditTimes.get(uri);
+        const recency = editedAt ? Math.max(0, 1 - (now - editedAt) / 600_000) : 0;
+
+        const lines = tabDocument.getText().split('\n');
+        for (let start = 0; start < lines.length; start += SNIPPET_STRIDE) {
+            const content = lines.slice(start, start + SNIPPET_LINES).join('\n');
+            const score = jaccard(query, identifierSet(content)) * (1 + 0.5 * recency);
+            if (score >= MIN_SIMILARITY) {
+                candidates.push({ path, startLine: start, content, score });
+            }
+        }
+    }
+
+    // Best first, at most one (non-overlapping) snippet per file
+    candidates.sort((a, b) => b.score - a.score);
+    const picked: typeof candidates = [];
+    for (const candidate of candidates) {
+        if (picked.length >= MAX_SNIPPETS) {
+            break;
+        }
+        if (!picked.some(p => p.path === candidate.path)) {
+            picked.push(candidate);
+        }
+    }
+
+    return picked.map(snippet => ({
+        path: `${snippet.path}:${snippet.startLine + 1}-${snippet.startLine + snippet.content.split('\n').length}`,
+        content: snippet.content
+    }));
+}
+
+// --- Notebook Cells ---
+
+/**
+ * For a notebook cell: the code cells above it, as one block named after the notebook.
+ * Keeps the cells closest to the current one when they do not all fit.
+ */
+export function collectNotebookCells(document: vscode.TextDocument): CrossFileBlock | undefined {
+    if (document.uri.scheme !== 'vscode-notebook-cell') {
+        return undefined;
+    }
+    const notebook = vscode.workspace.notebookDocuments
+        .find(candidate => candidate.getCells().some(cell => cell.document === document));
+    const current = notebook?.getCells().find(cell => cell.document === document);
+    if (!notebook || !current) {
+        return undefined;
+    }
+
+    const previousCells = notebook.getCells(new vscode.NotebookRange(0, current.index))
+        .filter(cell => cell.kind === vscode.NotebookCellKind.Code)
+        .map(cell => cell.document.getText());
+
+    let content = previousCells.join('\n\n');
+    if (content.length > NOTEBOOK_MAX_CHARS) {
+        // Snap to the next full line after the cut
+        const cut = content.substring(content.length - NOTEBOOK_MAX_CHARS);
+        content = cut.substring(cut.indexOf('\n') + 1);
+    }
+    if (!content.trim()) {
+        return undefined;
+    }
+    return { path: `${toContextFilePath(notebook.uri)} (cells above)`, content };
+}
+
+// --- Entry Point ---
+
+/**
+ * Cross-file context for the prompt: imported symbol signatures first, then similar open-tab snippets,
+ * cut to `codeSuggestions.crossFileMaxChars`. Returns nothing when `codeSuggestions.crossFileContext` is off.
+ */
+export async function collectCrossFileContext(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    imports: ImportStatement[],
+    scopeText: string,
+    excludedPaths: string[]
+): Promise<CrossFileBlock[]> {
+    const config = vscode.workspace.getConfiguration("codeSuggestions");
+    if (!config.get<boolean>("crossFileContext", true)) {
+        return [];
+    }
+    let remaining = config.get<number>("crossFileMaxChars", 3000);
+
+    const startLine = Math.max(0, position.line - SNIPPET_LINES);
+    const nearCursorText = document.getText(new vscode.Range(startLine, 0, position.line, position.character));
+
+    const blocks = [
+        ...await collectImportedSignatures(document, imports, scopeText),
+        ...collectOpenTabSnippets(document, nearCursorText, excludedPaths)
+    ];
+
+    const result: CrossFileBlock[] = [];
+    for (const block of blocks) {
+        if (block.content.length > remaining) {
+            continue;
+        }
+        remaining -= block.content.length;
+        result.push(block);
+    }
+    return result;
+}
@@ -0,0 +1,337 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { buildActiveContext, CURSOR_MARKER, FILE_SEPARATOR, findDeepestSymbol, indentationScopeAt, TextSpan } from './activeContext';
+import { isExcludedFile } from './ContextFilesProvider';
+import { readPinnedContextFiles } from './contextFileReader';
+import { extractImportStatements } from './languageSupport';
+import { applyHunks, diffLines } from './lineDiff';
+import { log } from './outputChannel';
+import { redactSecrets } from './secretRedaction';
+import { authorizationHeaders, handleRejectedResponse, serverFetch } from './serverConnection';
+import { requestStarted } from './statusBar';
+
+// --- Edit Selection: an instruction rewrites the selection, reviewed in a diff editor ---
+
+// The proposed document shown on the right side of the diff
+const PROPOSAL_SCHEME = "code-suggestions-edit";
+
+// True while a proposal is open, for the accept/reject buttons in the editor title
+const PREVIEW_CONTEXT_KEY = "codeSuggestions.editPreview";
+
+// What the server sends for a selection to rewrite (see `EditRequest` in server-file.ts)
+interface EditRequestBody {
+  instruction: string;
+  selection: string;
+  prefix: string;
+  suffix: string;
+  path: string;
+  language_id: string;
+  context_text: string;
+  repo_name?: string;
+}
+
+// A rewrite waiting for the user: where it goes, and the document version it was made for
+interface PendingEdit {
+  document: vscode.TextDocument;
+  range: vscode.Range;
+  version: number;
+  original: string;
+  rewritten: string;
+  proposalUri: vscode.Uri;
+}
+
+let pending: PendingEdit | undefined;
+const proposals = new Map<string, string>();
+let proposalCount = 0;
+
+export function registerEditSelection(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(PROPOSAL_SCHEME, {
+      provideTextDocumentContent: uri => proposals.get(uri.toString()) ?? ""
+    }),
+
+    vscode.commands.registerCommand('codeSuggestions.editSelection', editSelection),
+    vscode.commands.registerCommand('codeSuggestions.acceptEdit', () => acceptEdit(pending?.rewritten)),
+    vscode.commands.registerCommand('codeSuggestions.acceptEditHunks', acceptEditHunks),
+    vscode.commands.registerCommand('codeSuggestions.rejectEdit', () => closeProposal()),
+
+    // Closing the diff editor rejects the proposal
+    vscode.window.tabGroups.onDidChangeTabs(e => {
+      if (pending && e.closed.some(tab => isProposalTab(tab, pending!.proposalUri))) {
+        discardProposal();
+      }
+    })
+  );
+}
+
+// --- Request ---
+
+/**
+ * Asks for an instruction and sends it with the selection to `/edit`: the enclosing symbol (or indented
+ * block, or a window) around it as prefix and suffix, the pinned context files, secrets masked.
+ */
+async function editSelection(): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || editor.selection.isEmpty) {
+    vscode.window.showWarningMessage("Code Suggestions: select the code to edit first.");
+    return;
+  }
+  const { document, selection } = editor;
+  if (isExcludedFile(document.uri)) {
+    vscode.window.showWarningMessage("Code Suggestions: this file matches codeSuggestions.exclude, nothing of it is sent.");
+    return;
+  }
+  if (vscode.workspace.getConfiguration("codeSuggestions").get("debugMode", false)) {
+    vscode.window.showWarningMessage("Code Suggestions: editing needs the live server, turn off codeSuggestions.debugMode.");
+    return;
+  }
+
+  const original = document.getText(selection);
+  if (isRedactionEnabled() && redactSecrets(original).redactions > 0) {
+    vscode.window.showWarningMessage("Code Suggestions: the selection contains what looks like a secret, it is not sent.");
+    return;
+  }
+  const instruction = await vscode.window.showInputBox({
+    title: "Code Suggestions: Edit Selection",
+    prompt: "How should the selected code change?",
+    placeHolder: "e.g. Add error handling, convert to async/await"
+  });
+  if (!instruction?.trim()) {
+    return;
+  }
+
+  const body = await buildEditRequest(document, selection, instruction.trim(), original);
+  const rewritten = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: "Code Suggestions: editing the selection…", cancellable: true },
+    (_progress, token) => requestEdit(body, token)
+  );
+  if (rewritten === undefined) {
+    return;
+  }
+  if (diffLines(original, rewritten).length === 0) {
+    vscode.window.showInformationMessage("Code Suggestions: the model left the selection unchanged.");
+    return;
+  }
+  await showProposal({ document, range: selection, version: document.version, original, rewritten, proposalUri: nextProposalUri(document) });
+}
+
+async function buildEditRequest(
+  document: vscode.TextDocument,
+  selection: vscode.Selection,
+  instruction: string,
+  original: string
+): Promise<EditRequestBody> {
+  const text = document.getText();
+  const start = document.offsetAt(selection.start);
+  const end = document.offsetAt(selection.end);
+
+  // 1. The enclosing symbol (or indented block) of the whole selection, as for a suggestion at its start
+  let scope: TextSpan | undefined;
+  try {
+    const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>('vscode.executeDocumentSymbolProvider', document.uri);
+    if (symbols && symbols.length > 0) {
+      const symbol = findDeepestSymbol(symbols, symbol => symbol.range.contains(selection));
+      scope = symbol && { start: document.offsetAt(symbol.range.start), end: document.offsetAt(symbol.range.end) };
+    } else {
+      const block = indentationScopeAt(text, start);
+      scope = block && block.start <= start && block.end >= end ? block : undefined;
+    }
+  } catch (err) {
+    log.error("Error getting symbols:", err);
+  }
+
+  // 2. Prefix and suffix: the active context of the file without the selection, split at the cursor marker
+  const active = buildActiveContext({
+    text: text.substring(0, start) + text.substring(end),
+    offset: start,
+    languageId: document.languageId,
+    imports: extractImportStatements(text, document.languageId),
+    scope: scope && { start: scope.start, end: scope.end - (end - start) }
+  });
+  const [prefix, suffix] = active.promptContext.split(CURSOR_MARKER);
+
+  // 3. Pinned context files, secrets masked like in a suggestion request
+  const redact = (value: string) => isRedactionEnabled() ? redactSecrets(value).text : value;
+  const pinnedFiles = await readPinnedContextFiles(document.uri);
+
+  return {
+    instruction,
+    selection: original,
+    prefix: redact(prefix),
+    suffix: redact(suffix),
+    path: document.uri.fsPath,
+    language_id: document.languageId,
+    context_text: pinnedFiles.map(file => `${FILE_SEPARATOR}${file.path} ---\n${redact(file.content)}`).join(''),
+    repo_name: vscode.workspace.name
+  };
+}
+
+function isRedactionEnabled(): boolean {
+  return vscode.workspace.getConfiguration("codeSuggestions").get("redactSecrets", true);
+}
+
+// The rewritten selection, or undefined (cancelled, rejected, or failed: the user has been told)
+async function requestEdit(body: EditRequestBody, token: vscode.CancellationToken): Promise<string | undefined> {
+  const serverUrl = vscode.workspace.getConfiguration("codeSuggestions").get("serverUrl") ?? "http://localhost:3000";
+  const abortController = new AbortController();
+  const cancellation = token.onCancellationRequested(() => abortController.abort());
+  const status = requestStarted();
+
+  try {
+    log.info(`POST /edit (${body.language_id}, ${body.selection.length} chars selected): ${body.instruction}`);
+    const response = await serverFetch(`${serverUrl}/edit`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Client-Id": vscode.env.sessionId,
+        ...authorizationHeaders()
+      },
+      body: JSON.stringify(body),
+      signal: abortController.signal
+    });
+    const data = await response.json().catch(() => ({})) as any;
+
+    if (!response.ok || data.status !== "ok") {
+      const reason = data.error ?? (response.ok ? data.status : `HTTP ${response.status}`);
+      status.fail(reason);
+      if (!handleRejectedResponse(response, data)) {
+        log.error(`Edit failed: ${reason}`);
+        vscode.window.showErrorMessage(`Code Suggestions: the edit failed (${reason}).`);
+      }
+      return undefined;
+    }
+    log.info(`Edit received: ${data.text.length} chars${data.model ? ` from ${data.model}` : ""}`);
+    log.trace(data.text);
+    return data.text;
+
+  } catch (err) {
+    if (err instanceof Error && err.name === "AbortError") {
+      status.cancel();
+      return undefined;
+    }
+    status.fail(err instanceof Error ? err.message : String(err));
+    log.error("Edit failed:", err);
+    vscode.window.showErrorMessage(`Code Suggestions: the edit failed (${err instanceof Error ? err.message : err}).`);
+    return undefined;
+  } finally {
+    cancellation.dispose();
+    status.end();
+  }
+}
+
+// --- Diff Preview ---
+
+// The same file name, so the diff editor highlights the proposal like the original
+function nextProposalUri(document: vscode.TextDocument): vscode.Uri {
+  const name = path.basename(document.uri.path) || "untitled";
+  return vscode.Uri.from({ scheme: PROPOSAL_SCHEME, path: `/${name}`, query: String(++proposalCount) });
+}
+
+function isProposalTab(tab: vscode.Tab, proposalUri: vscode.Uri): boolean {
+  return tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === proposalUri.toString();
+}
+
+/**
+ * Opens the whole document with the selection rewritten next to the original. The choice is made with
+ * the editor title buttons or the notification; a newer proposal replaces this one.
+ */
+async function showProposal(edit: PendingEdit): Promise<void> {
+  if (pending) {
+    await closeProposal();
+  }
+  const { document, range, rewritten, proposalUri } = edit;
+  const text = document.getText();
+  proposals.set(proposalUri.toString(), text.substring(0, document.offsetAt(range.start)) + rewritten + text.substring(document.offsetAt(range.end)));
+  pending = edit;
+  vscode.commands.executeCommand('setContext', PREVIEW_CONTEXT_KEY, true);
+
+  const title = `${path.basename(document.uri.path) || "Untitled"} ↔ Proposed Edit`;
+  await vscode.commands.executeCommand('vscode.diff', document.uri, proposalUri, title, { preview: true });
+
+  const hunkCount = diffLines(edit.original, rewritten).length;
+  const choice = await vscode.window.showInformationMessage(
+    `Code Suggestions: ${hunkCount} change(s) proposed.`, "Accept", "Choose Changes…", "Reject"
+  );
+  if (pending !== edit) {
+    return; // Decided in the meantime (title buttons, closed diff, newer proposal)
+  }
+  if (choice === "Accept") {
+    await acceptEdit(edit.rewritten);
+  } else if (choice === "Choose Changes…") {
+    await acceptEditHunks();
+  } else if (choice === "Reject") {
+    await closeProposal();
+  }
+}
+
+function discardProposal(): void {
+  if (pending) {
+    proposals.delete(pending.proposalUri.toString());
+  }
+  pending = undefined;
+  vscode.commands.executeCommand('setContext', PREVIEW_CONTEXT_KEY, false);
+}
+
+async function closeProposal(): Promise<void> {
+  const proposalUri = pending?.proposalUri;
+  discardProposal();
+  if (!proposalUri) {
+    return;
+  }
+  const tabs = vscode.window.tabGroups.all.flatMap(group => group.tabs).filter(tab => isProposalTab(tab, proposalUri));
+  await vscode.window.tabGroups.close(tabs);
+}
+
+// --- Applying ---
+
+// Lets the user pick which changes to keep (all of them preselected)
+async function acceptEditHunks(): Promise<void> {
+  const edit = pending;
+  if (!edit) {
+    return;
+  }
+  const firstLine = edit.range.start.line;
+  const items = diffLines(edit.original, edit.rewritten).map(hunk => ({
+    label: hunk.removed.length > 0
+      ? `Lines ${firstLine + hunk.start + 1}–${firstLine + hunk.start + hunk.removed.length}`
+      : `After line ${firstLine + hunk.start}`,
+    description: `−${hunk.removed.length} +${hunk.added.length}`,
+    detail: (hunk.added.find(line => line.trim()) ?? hunk.removed.find(line => line.trim()) ?? "").trim(),
+    picked: true,
+    hunk
+  }));
+
+  const picked = await vscode.window.showQuickPick(items, {
+    title: "Code Suggestions: changes to apply",
+    canPickMany: true
+  });
+  if (picked && pending === edit) {
+    await acceptEdit(applyHunks(edit.original, picked.map(item => item.hunk)));
+  }
+}
+
+/**
+ * Replaces the selection with `replacement` in a single `WorkspaceEdit`, so one undo takes it back.
+ * A document that changed since the request is left alone: the proposal no longer fits it.
+ */
+async function acceptEdit(replacement: string | undefined): Promise<void> {
+  const edit = pending;
+  if (!edit || replacement === undefined) {
+    return;
+  }
+  if (edit.document.version !== edit.version) {
+    vscode.window.showWarningMessage("Code Suggestions: the file changed since the edit was proposed, edit the selection again.");
+    await closeProposal();
+    return;
+  }
+
+  const workspaceEdit = new vscode.WorkspaceEdit();
+  workspaceEdit.replace(edit.document.uri, edit.range, replacement);
+  await closeProposal();
+  if (!await vscode.workspace.applyEdit(workspaceEdit)) {
+    vscode.window.showErrorMessage("Code Suggestions: the edit could not be applied.");
+    return;
+  }
+  log.info(`Edit applied to ${edit.document.uri.fsPath}`);
+  await vscode.window.showTextDocument(edit.document);
+}
@@ -0,0 +1,164 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { DEFAULT_WINDOW_CHARS } from "../activeContext";
+import { createApp } from "../server/app";
+import { loadServerConfig } from "../server/config";
+import { createLogger } from "../server/logger";
+import { createCompletionService } from "../server/server-file";
+import { SuggestionEdit } from "../suggestionEdit";
+import { validateSuggestion } from "../syntaxValidation";
+import { expectedText, MaskedSpan, MaskKind, maskLocation } from "./masking";
+import { buildEvalRequest, ContextStrategy } from "./requestBuilder";
+import { SampleScore, scoreSuggestion } from "./scoring";
+
+// -------------------------------------------------------------------
+// 🧪 Evaluation Harness: one configuration against every masked span
+// -------------------------------------------------------------------
+
+/**
+ * One side of a comparison, read from a JSON file. `server` holds server settings as the environment
+ * variables `npm run server` reads (`FIM_TEMPLATE`, `BACKEND_URL`, `BACKEND_NUM_CTX`, `SERVER_CONFIG`,
+ * `REPLAY_FIXTURES`, ...) on top of the current environment; `context` and `validateSyntax` are the
+ * extension side (see requestBuilder.ts and `codeSuggestions.validateSyntax`).
+ */
+export interface EvalConfig {
+    name: string;
+    server: NodeJS.ProcessEnv;
+    context: ContextStrategy;
+    validateSyntax: boolean;
+}
+
+export interface SampleResult extends SampleScore {
+    location: string;          // "src/app.ts:12"
+    kind: MaskKind;
+    expected: string;
+    suggestion: string;
+    latencyMs: number;
+    validation?: string;       // Why validation trimmed or dropped the suggestion
+    error?: string;            // The request failed: counted as an empty suggestion
+}
+
+const DEFAULT_CONTEXT: ContextStrategy = { scoping: 'symbols', windowChars: DEFAULT_WINDOW_CHARS, redactSecrets: true };
+
+// A local model can be slow, but a request that takes longer than this is not a suggestion anyone sees
+const REQUEST_TIMEOUT_MS = 60_000;
+
+/**
+ * Reads a configuration file: `{ "name"?, "server"?: { VARIABLE: value }, "context"?: { scoping, windowChars,
+ * redactSecrets }, "validateSyntax"? }`. Everything is optional; the name defaults to the file name.
+ */
+export function loadEvalConfig(file: string): EvalConfig {
+    const fromFile = JSON.parse(fs.readFileSync(file, "utf-8"));
+    const context: ContextStrategy = { ...DEFAULT_CONTEXT, ...fromFile.context };
+    if (!['symbols', 'indentation', 'window'].includes(context.scoping)) {
+        throw new Error(`${file}: unknown context.scoping "${context.scoping}", expected symbols, indentation or window`);
+    }
+
+    return {
+        name: fromFile.name ?? path.basename(file, '.json'),
+        server: Object.fromEntries(Object.entries(fromFile.server ?? {}).map(([name, value]) => [name, String(value)])),
+        context,
+        validateSyntax: fromFile.validateSyntax ?? true
+    };
+}
+
+/**
+ * Starts the completion server for a configuration on a free local port, in this process.
+ * The harness is its only client, so API keys are not required.
+ */
+async function startServer(config: EvalConfig): Promise<{ url: string; close(): Promise<void> }> {
+    const serverConfig = loadServerConfig({ ...process.env, LOG_LEVEL: 'warn', ...config.server });
+    const logger = createLogger(serverConfig.logLevel, line => process.stderr.write(line + "\n"));
+    const service = createCompletionService(serverConfig, logger);
+    const app = createApp(service, { ...serverConfig, auth: { ...serverConfig.auth, keys: [] } }, logger);
+
+    return new Promise(resolve => {
+        const server = http.createServer(app).listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as AddressInfo;
+            resolve({
+                url: `http://127.0.0.1:${port}`,
+                close: () => new Promise(done => {
+                    service.abortAll();
+                    server.closeAllConnections();
+                    server.close(() => done());
+                })
+            });
+        });
+    });
+}
+
+// Asks the server for a suggestion and applies the extension's validation, like an inline suggestion would be
+async function requestSuggestion(
+    url: string,
+    mask: MaskedSpan,
+    config: EvalConfig,
+    repoName: string
+): Promise<{ edit: SuggestionEdit; latencyMs: number; validation?: string }> {
+    const startedAt = Date.now();
+    const response = await fetch(`${url}/complete`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(buildEvalRequest(mask, config.context, repoName)),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${(await response.text()).substring(0, 200)}`);
+    }
+    const body = await response.json() as { text?: string; insertText?: string; replace?: number };
+    const edit = { insertText: body.insertText ?? body.text ?? '', replace: body.replace ?? 0 };
+    const latencyMs = Date.now() - startedAt;
+    if (!config.validateSyntax) {
+        return { edit, latencyMs };
+    }
+
+    let validation: string | undefined;
+    const { text, languageId, path: fileName } = mask.file;
+    const validated = await validateSuggestion(
+        edit,
+        { textBefore: text.substring(0, mask.start), textAfter: text.substring(mask.end), languageId, fileName },
+        message => validation = message
+    );
+    return { edit: validated, latencyMs, validation };
+}
+
+/**
+ * Runs every mask through a configuration, one request at a time (the server queue lets only the newest
+ * request of a client through). `onProgress` is called after each sample.
+ */
+export async function runEvaluation(
+    masks: MaskedSpan[],
+    config: EvalConfig,
+    repoName: string,
+    onProgress?: (done: number, total: number) => void
+): Promise<SampleResult[]> {
+    const server = await startServer(config);
+    const results: SampleResult[] = [];
+
+    try {
+        for (const mask of masks) {
+            const startedAt = Date.now();
+            const sample = { location: maskLocation(mask), kind: mask.kind, expected: expectedText(mask) };
+            try {
+                const { edit, latencyMs, validation } = await requestSuggestion(server.url, mask, config, repoName);
+                results.push({ ...sample, ...await scoreSuggestion(mask, edit), suggestion: edit.insertText, latencyMs, validation });
+            } catch (error) {
+                results.push({
+                    ...sample,
+                    exactMatch: false,
+                    editSimilarity: 0,
+                    compiles: false,
+                    empty: true,
+                    suggestion: '',
+                    latencyMs: Date.now() - startedAt,
+                    error: error instanceof Error ? error.message : String(error)
+                });
+            }
+            onProgress?.(results.length, masks.length);
+        }
+    } finally {
+        await server.close();
+    }
+    return results;
+}
@@ -0,0 +1,101 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as path from "path";
+import { loadEvalConfig, runEvaluation } from "./harness";
+import { collectSourceFiles, sampleMasks } from "./masking";
+import { EvalRun, renderReport } from "./report";
+
+// -------------------------------------------------------------------
+// 🧪 Offline Evaluation (npm run eval -- --repo ../project --baseline a.json --candidate b.json)
+// -------------------------------------------------------------------
+
+const DEFAULT_SAMPLES_PER_KIND = 50;
+const DEFAULT_SEED = 1;
+
+const OPTIONS = ['--repo', '--baseline', '--candidate', '--samples', '--seed', '--exclude', '--out', '--details'];
+
+const USAGE = `Usage: node out/eval/main.js --repo <folder> --baseline <config.json> [options]
+
+Masks random lines, function bodies and argument lists of the repository's source files, asks the
+completion server (started in this process for each configuration) to fill them in, and reports
+exact match, edit similarity and whether the file still compiles.
+
+Options:
+  --repo <folder>           The repository to mask
+  --baseline <file>         Configuration to evaluate (see README.md)
+  --candidate <file>        Second configuration, compared against the baseline
+  --samples <n>             Masked spans per kind (default ${DEFAULT_SAMPLES_PER_KIND})
+  --seed <n>                Seed for choosing the spans (default ${DEFAULT_SEED})
+  --exclude <globs>         Comma-separated globs of files to leave out
+  --out <file>              Write the Markdown report there instead of printing it
+  --details <file>          Write every sample of every configuration as JSON lines
+  --help                    Show this help`;
+
+function parseOptions(argv: string[]): Record<string, string> {
+    const options: Record<string, string> = {};
+    for (let i = 0; i < argv.length; i++) {
+        const [flag, inlineValue] = argv[i].split(/=(.*)/s, 2);
+        if (!OPTIONS.includes(flag)) {
+            throw new Error(`Unknown option "${flag}"\n\n${USAGE}`);
+        }
+        const value = inlineValue ?? argv[++i];
+        if (value === undefined) {
+            throw new Error(`Option "${flag}" needs a value`);
+        }
+        options[flag.substring(2)] = value;
+    }
+    if (!options.repo || !options.baseline) {
+        throw new Error(`--repo and --baseline are required\n\n${USAGE}`);
+    }
+    return options;
+}
+
+async function main(argv: string[]): Promise<void> {
+    if (argv.includes('--help') || argv.includes('-h')) {
+        console.log(USAGE);
+        return;
+    }
+    const options = parseOptions(argv);
+    const perKind = Number(options.samples ?? DEFAULT_SAMPLES_PER_KIND);
+    const seed = Number(options.seed ?? DEFAULT_SEED);
+
+    // 1. Configurations first: a typo should fail before anything runs
+    const configs = [options.baseline, options.candidate].filter((file): file is string => !!file).map(loadEvalConfig);
+
+    // 2. The same masks for every configuration
+    const repo = path.resolve(options.repo);
+    const files = collectSourceFiles(repo, (options.exclude ?? '').split(',').map(glob => glob.trim()).filter(Boolean));
+    const masks = sampleMasks(files, perKind, seed);
+    if (masks.length === 0) {
+        throw new Error(`Nothing to mask in ${repo}: no source files of a known language`);
+    }
+    console.error(`${masks.length} masked span(s) from ${files.length} file(s)`);
+
+    // 3. One configuration after the other (each with its own server)
+    const runs: EvalRun[] = [];
+    for (const config of configs) {
+        const results = await runEvaluation(masks, config, path.basename(repo), (done, total) => {
+            process.stderr.write(`\r${config.name}: ${done}/${total}`);
+        });
+        process.stderr.write('\n');
+        runs.push({ config, results });
+    }
+
+    // 4. Report (and the raw samples, for digging into single cases)
+    const report = renderReport({ repo, files: files.length, seed, perKind }, runs);
+    if (options.details) {
+        const lines = runs.flatMap(run => run.results.map(result => JSON.stringify({ config: run.config.name, ...result })));
+        fs.writeFileSync(options.details, lines.join('\n') + '\n');
+    }
+    if (options.out) {
+        fs.writeFileSync(options.out, report);
+        console.error(`Report written to ${options.out}`);
+    } else {
+        process.stdout.write(report);
+    }
+}
+
+main(process.argv.slice(2)).catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -0,0 +1,209 @@
+import * as fs from "fs";
+import * as path from "path";
+import { DEFAULT_EXCLUDE_PATTERNS, matchesAnyGlob } from "../excludeGlobs";
+import { findIndentationScope, lineCommentFor } from "../languageSupport";
+import { seededRandom } from "../replayFixtures";
+
+// -------------------------------------------------------------------
+// 🎭 Masking: spans of a real repository the model has to fill in again
+// -------------------------------------------------------------------
+
+export type MaskKind = 'line' | 'body' | 'arguments';
+
+export const MASK_KINDS: MaskKind[] = ['line', 'body', 'arguments'];
+
+export interface SourceFile {
+    path: string;                // Relative to the repository, with "/" separators
+    languageId: string;
+    text: string;
+}
+
+// The masked span is [start, end) of the file text: the cursor sits at `start`, the model should write the span
+export interface MaskedSpan {
+    file: SourceFile;
+    kind: MaskKind;
+    start: number;
+    end: number;
+}
+
+// --- 🗂️ Source Files ---
+
+const LANGUAGE_IDS: Record<string, string> = {
+    '.ts': 'typescript',
+    '.tsx': 'typescriptreact',
+    '.js': 'javascript',
+    '.jsx': 'javascriptreact',
+    '.py': 'python',
+    '.go': 'go',
+    '.rs': 'rust',
+    '.java': 'java',
+    '.cs': 'csharp',
+    '.c': 'c',
+    '.h': 'c',
+    '.cpp': 'cpp',
+    '.rb': 'ruby',
+    '.php': 'php'
+};
+
+// Build output, dependencies and hidden folders (.git, .vscode-test, ...) are never read
+const SKIPPED_FOLDERS = new Set(['node_modules', 'out', 'dist', 'build', 'target', 'vendor']);
+
+// Generated and minified files are not what anyone types
+const MAX_FILE_BYTES = 256 * 1024;
+
+/**
+ * Every source file of a known language under `root`, sorted by path so a seed always draws the same masks.
+ * Files matching `exclude` (or the extension's default exclude globs, e.g. `.env*`) are left out.
+ */
+export function collectSourceFiles(root: string, exclude: string[] = []): SourceFile[] {
+    const patterns = [...DEFAULT_EXCLUDE_PATTERNS, ...exclude];
+    const files: SourceFile[] = [];
+
+    const walk = (dir: string) => {
+        for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+            const fullPath = path.join(dir, entry.name);
+            const relativePath = path.relative(root, fullPath).split(path.sep).join('/');
+
+            if (entry.isDirectory()) {
+                if (!entry.name.startsWith('.') && !SKIPPED_FOLDERS.has(entry.name)) {
+                    walk(fullPath);
+                }
+                continue;
+            }
+            const languageId = LANGUAGE_IDS[path.extname(entry.name).toLowerCase()];
+            if (!entry.isFile() || !languageId || entry.name.endsWith('.d.ts') || matchesAnyGlob(relativePath, patterns)) {
+                continue;
+            }
+            if (fs.statSync(fullPath).size <= MAX_FILE_BYTES) {
+                files.push({ path: relativePath, languageId, text: fs.readFileSync(fullPath, 'utf-8') });
+            }
+        }
+    };
+    walk(root);
+    return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// --- ✂️ Finding Spans ---
+
+// Shorter spans say nothing about the model, longer ones make the prompt mostly hole
+const MIN_SPAN_CHARS = 4;
+const MAX_SPAN_CHARS = 1500;
+
+// A function (or method) header: a definition keyword, or a parameter list followed by the body's opener
+const FUNCTION_HEADER = /\b(?:def|func|fn|fun|function)\b|\)\s*(?::\s*[^{}=]+|->\s*[^:{]+|throws\s+[\w.,\s]+)?(?:=>\s*)?[{:]\s*$/;
+const NOT_A_FUNCTION = /^\s*(?:}\s*)?(?:if|else|elif|for|foreach|while|do|switch|case|try|catch|except|finally|with|match)\b|^\s*(?:export\s+)?(?:abstract\s+)?(?:class|struct|interface|enum|impl|namespace)\b/;
+const DEFINITION_KEYWORD = /\b(?:def|func|fn|fun|function)\s*$/;
+const DEFINITION_BODY = /^\s*(?::[^;=]*)?\{\s*$/;
+const NOT_A_CALL = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'function', 'typeof', 'sizeof', 'super']);
+
+function lineOffsets(lines: string[]): number[] {
+    const offsets: number[] = [];
+    let offset = 0;
+    for (const line of lines) {
+        offsets.push(offset);
+        offset += line.length + 1;
+    }
+    return offsets;
+}
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+/** Random lines: everything after the indentation of a line with some code on it (not a comment). */
+function lineSpans(file: SourceFile, lines: string[], offsets: number[]): MaskedSpan[] {
+    const lineComment = lineCommentFor(file.languageId);
+    return lines.flatMap((line, index) => {
+        const code = line.trim();
+        if (code.length < MIN_SPAN_CHARS || !/\w/.test(code) || (lineComment && code.startsWith(lineComment))) {
+            return [];
+        }
+        const start = offsets[index] + indentOf(line);
+        return [{ file, kind: 'line' as const, start, end: start + code.length }];
+    });
+}
+
+/**
+ * Function bodies: the lines after a function header that are indented deeper than it (the block
+ * `findIndentationScope` finds), without the closing bracket. The cursor sits after the first line's indentation.
+ */
+function bodySpans(file: SourceFile, lines: string[], offsets: number[]): MaskedSpan[] {
+    const spans: MaskedSpan[] = [];
+    lines.forEach((line, index) => {
+        if (index + 1 >= lines.length || !FUNCTION_HEADER.test(line) || NOT_A_FUNCTION.test(line) || !/[{:]\s*$/.test(line)) {
+            return;
+        }
+        const scope = findIndentationScope(lines, index + 1);
+        if (scope?.start !== index) {
+            return;
+        }
+        // The scope includes a closing bracket at the header's level, the body does not
+        const last = indentOf(lines[scope.end]) <= indentOf(line) ? scope.end - 1 : scope.end;
+        if (last <= index) {
+            return;
+        }
+        const start = offsets[index + 1] + indentOf(lines[index + 1]);
+        const end = offsets[last] + lines[last].trimEnd().length;
+        const body = file.text.substring(start, end);
+        if (body.trim().length >= MIN_SPAN_CHARS && body.length <= MAX_SPAN_CHARS) {
+            spans.push({ file, kind: 'body', start, end });
+        }
+    });
+    return spans;
+}
+
+/** Argument lists of calls that open and close on the same line (definitions are skipped). */
+function argumentSpans(file: SourceFile, lines: string[], offsets: number[]): MaskedSpan[] {
+    const spans: MaskedSpan[] = [];
+    lines.forEach((line, index) => {
+        for (const match of line.matchAll(/([A-Za-z_$][\w$]*)\s*\(/g)) {
+            const open = match.index! + match[0].length;
+            if (NOT_A_CALL.has(match[1]) || DEFINITION_KEYWORD.test(line.substring(0, match.index))) {
+                continue;
+            }
+            let depth = 1;
+            let close = open;
+            for (; close < line.length && depth > 0; close++) {
+                depth += line[close] === '(' ? 1 : line[close] === ')' ? -1 : 0;
+            }
+            if (depth === 0 && line.substring(open, close - 1).trim().length >= 1 && !DEFINITION_BODY.test(line.substring(close))) {
+                spans.push({ file, kind: 'arguments', start: offsets[index] + open, end: offsets[index] + close - 1 });
+            }
+        }
+    });
+    return spans;
+}
+
+// Every span of the file that could be masked, of every kind
+export function findMaskCandidates(file: SourceFile): MaskedSpan[] {
+    const lines = file.text.split('\n');
+    const offsets = lineOffsets(lines);
+    return [...lineSpans(file, lines, offsets), ...bodySpans(file, lines, offsets), ...argumentSpans(file, lines, offsets)];
+}
+
+/**
+ * Draws up to `perKind` spans of each kind from all files with a seeded generator:
+ * the same repository, seed and count always give the same masks, so two configurations see the same holes.
+ */
+export function sampleMasks(files: SourceFile[], perKind: number, seed: number): MaskedSpan[] {
+    const random = seededRandom(seed);
+    const candidates = files.flatMap(findMaskCandidates);
+
+    return MASK_KINDS.flatMap(kind => {
+        const ofKind = candidates.filter(span => span.kind === kind);
+        // Partial Fisher-Yates: the first `perKind` entries end up a uniform sample
+        for (let i = 0; i < Math.min(perKind, ofKind.length); i++) {
+            const j = i + Math.floor(random() * (ofKind.length - i));
+            [ofKind[i], ofKind[j]] = [ofKind[j], ofKind[i]];
+        }
+        return ofKind.slice(0, perKind);
+    });
+}
+
+// The text the model should write again
+export function expectedText(mask: MaskedSpan): string {
+    return mask.file.text.substring(mask.start, mask.end);
+}
+
+// Where the mask is, for the report ("src/app.ts:12")
+export function maskLocation(mask: MaskedSpan): string {
+    return `${mask.file.path}:${mask.file.text.substring(0, mask.start).split('\n').length}`;
+}
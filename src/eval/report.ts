@@ -0,0 +1,138 @@
+import { percentile } from "../suggestionStats";
+import { EvalConfig, SampleResult } from "./harness";
+import { MASK_KINDS } from "./masking";
+
+// -------------------------------------------------------------------
+// 📊 Report: the configurations side by side, as Markdown
+// -------------------------------------------------------------------
+
+export interface EvalRun {
+    config: EvalConfig;
+    results: SampleResult[];
+}
+
+export interface EvalSetup {
+    repo: string;
+    files: number;
+    seed: number;
+    perKind: number;
+}
+
+export interface EvalSummary {
+    samples: number;
+    exactMatch: number;        // Share of samples (0..1)
+    editSimilarity: number;    // Mean
+    compiles: number;          // Share of samples
+    empty: number;             // Share of samples
+    errors: number;            // Count
+    medianLatencyMs: number;
+}
+
+// The most improved and regressed samples listed in a comparison
+const LISTED_SAMPLES = 5;
+
+export function summarizeResults(results: SampleResult[]): EvalSummary {
+    const share = (predicate: (result: SampleResult) => boolean) =>
+        results.length > 0 ? results.filter(predicate).length / results.length : 0;
+
+    return {
+        samples: results.length,
+        exactMatch: share(result => result.exactMatch),
+        editSimilarity: results.length > 0 ? results.reduce((sum, result) => sum + result.editSimilarity, 0) / results.length : 0,
+        compiles: share(result => result.compiles),
+        empty: share(result => result.empty),
+        errors: results.filter(result => result.error !== undefined).length,
+        medianLatencyMs: percentile(results.filter(result => !result.error).map(result => result.latencyMs), 50)
+    };
+}
+
+// --- 🧾 Formatting ---
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const points = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)} pts`;
+const signed = (value: number, digits: number) => `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+// One row per metric: value, formatted value, formatted difference to the baseline
+const METRICS: { label: string; value: (summary: EvalSummary) => number; format: (value: number) => string; delta: (value: number) => string }[] = [
+    { label: 'Exact match', value: summary => summary.exactMatch, format: percent, delta: points },
+    { label: 'Edit similarity', value: summary => summary.editSimilarity, format: value => value.toFixed(3), delta: value => signed(value, 3) },
+    { label: 'Compiles after insertion', value: summary => summary.compiles, format: percent, delta: points },
+    { label: 'Empty suggestions', value: summary => summary.empty, format: percent, delta: points },
+    { label: 'Failed requests', value: summary => summary.errors, format: String, delta: value => signed(value, 0) },
+    { label: 'Median latency', value: summary => summary.medianLatencyMs, format: value => `${value} ms`, delta: value => `${signed(value, 0)} ms` }
+];
+
+function metricsTable(runs: EvalRun[], filter: (result: SampleResult) => boolean): string {
+    const summaries = runs.map(run => summarizeResults(run.results.filter(filter)));
+    const comparing = summaries.length === 2;
+
+    const header = ['Metric', ...runs.map(run => run.config.name), ...(comparing ? ['Δ'] : [])];
+    const rows = METRICS.map(metric => {
+        const values = summaries.map(metric.value);
+        return [metric.label, ...values.map(metric.format), ...(comparing ? [metric.delta(values[1] - values[0])] : [])];
+    });
+    return [header, header.map(() => '---'), ...rows].map(row => `| ${row.join(' | ')} |`).join('\n');
+}
+
+function describeConfig(config: EvalConfig): string {
+    const { scoping, windowChars, redactSecrets } = config.context;
+    const server = Object.entries(config.server).map(([name, value]) => `\`${name}=${value}\``).join(', ');
+    return `- **${config.name}**: scoping \`${scoping}\`, window ${windowChars} chars, redaction ${redactSecrets ? 'on' : 'off'}, ` +
+        `validation ${config.validateSyntax ? 'on' : 'off'}, server ${server || 'from the environment'}`;
+}
+
+// A sample's change in edit similarity, with what each side suggested
+function sampleLine(baseline: SampleResult, candidate: SampleResult): string {
+    const snippet = (text: string) => `\`${text.replace(/\s+/g, ' ').trim().substring(0, 60) || '(empty)'}\``;
+    return `- ${baseline.location} (${baseline.kind}): ${baseline.editSimilarity.toFixed(2)} → ${candidate.editSimilarity.toFixed(2)}, ` +
+        `expected ${snippet(baseline.expected)}, got ${snippet(baseline.suggestion)} → ${snippet(candidate.suggestion)}`;
+}
+
+// Per sample: how often the candidate got closer, and the biggest moves either way
+function differences(baseline: EvalRun, candidate: EvalRun): string {
+    const pairs = baseline.results.map((result, index) => ({ before: result, after: candidate.results[index] }));
+    const change = (pair: typeof pairs[number]) => pair.after.editSimilarity - pair.before.editSimilarity;
+    const improved = pairs.filter(pair => change(pair) > 0).sort((a, b) => change(b) - change(a));
+    const regressed = pairs.filter(pair => change(pair) < 0).sort((a, b) => change(a) - change(b));
+
+    return [
+        `**${candidate.config.name}** came closer on ${improved.length} sample(s), further away on ${regressed.length}, ` +
+        `and the same on ${pairs.length - improved.length - regressed.length}.`,
+        '',
+        '### Largest regressions',
+        '',
+        ...(regressed.length > 0 ? regressed.slice(0, LISTED_SAMPLES).map(pair => sampleLine(pair.before, pair.after)) : ['None.']),
+        '',
+        '### Largest improvements',
+        '',
+        ...(improved.length > 0 ? improved.slice(0, LISTED_SAMPLES).map(pair => sampleLine(pair.before, pair.after)) : ['None.'])
+    ].join('\n');
+}
+
+/**
+ * The report for one configuration, or a comparison of two (the second against the first, the baseline):
+ * every metric overall and per mask kind, and for a comparison the samples that changed most.
+ */
+export function renderReport(setup: EvalSetup, runs: EvalRun[]): string {
+    const sections = [
+        `# Evaluation: ${runs.map(run => run.config.name).join(' vs ')}`,
+        '',
+        `Repository \`${setup.repo}\` (${setup.files} source files), seed ${setup.seed}, up to ${setup.perKind} masked spans per kind.`,
+        '',
+        ...runs.map(run => describeConfig(run.config)),
+        '',
+        '## Overall',
+        '',
+        metricsTable(runs, () => true)
+    ];
+
+    for (const kind of MASK_KINDS) {
+        if (runs[0].results.some(result => result.kind === kind)) {
+            sections.push('', `## Masked: ${kind}`, '', metricsTable(runs, result => result.kind === kind));
+        }
+    }
+    if (runs.length === 2) {
+        sections.push('', '## Differences', '', differences(runs[0], runs[1]));
+    }
+    return sections.join('\n') + '\n';
+}
@@ -0,0 +1,129 @@
+import * as ts from "typescript";
+import { buildActiveContext, CURSOR_MARKER, FILE_SEPARATOR, findDeepestSymbol, indentationScopeAt, TextSpan } from "../activeContext";
+import { extractImportStatements } from "../languageSupport";
+import { redactSecrets } from "../secretRedaction";
+import { MaskedSpan } from "./masking";
+
+// -------------------------------------------------------------------
+// 🧱 Request Builder: the `/complete` request the extension would send for a masked span
+// -------------------------------------------------------------------
+
+/**
+ * How the extension side builds the context (see activeContext.ts). `symbols` scopes to the deepest symbol
+ * around the cursor like the extension does with a symbol provider (TypeScript's parser stands in for
+ * VS Code's here; other languages use indentation, like the extension without a provider),
+ * `indentation` always uses the indented block and `window` always sends `windowChars` around the cursor.
+ */
+export interface ContextStrategy {
+    scoping: 'symbols' | 'indentation' | 'window';
+    windowChars: number;
+    redactSecrets: boolean;
+}
+
+export interface EvalRequest {
+    context_text: string;
+    language_id: string;
+    prefix: string;
+    repo_name: string;
+}
+
+// --- 🌳 Symbols ---
+
+interface ParsedSymbol extends TextSpan {
+    name: string;
+    children: ParsedSymbol[];
+}
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+    typescript: ts.ScriptKind.TS,
+    typescriptreact: ts.ScriptKind.TSX,
+    javascript: ts.ScriptKind.JS,
+    javascriptreact: ts.ScriptKind.JSX
+};
+
+const isFunctionLike = (node?: ts.Node) =>
+    !!node && (ts.isArrowFunction(node) || ts.isFunctionExpression(node) || ts.isClassExpression(node));
+
+// The declarations VS Code's TypeScript outline shows: local variables only when they hold a function or class
+function symbolName(node: ts.Node, topLevel: boolean): string | undefined {
+    if (ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node) ||
+        ts.isEnumDeclaration(node) || ts.isModuleDeclaration(node) || ts.isMethodDeclaration(node) ||
+        ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node) || ts.isPropertyDeclaration(node)) {
+        return node.name?.getText() ?? 'default';
+    }
+    if (ts.isConstructorDeclaration(node)) {
+        return 'constructor';
+    }
+    if (ts.isVariableDeclaration(node) && (topLevel || isFunctionLike(node.initializer))) {
+        return node.name.getText();
+    }
+    return undefined;
+}
+
+// The symbol tree of a TypeScript or JavaScript file, or undefined for other languages
+function parseSymbols(text: string, languageId: string): ParsedSymbol[] | undefined {
+    const scriptKind = SCRIPT_KINDS[languageId];
+    if (scriptKind === undefined) {
+        return undefined;
+    }
+    const sourceFile = ts.createSourceFile('masked', text, ts.ScriptTarget.Latest, true, scriptKind);
+
+    const visit = (node: ts.Node, topLevel: boolean): ParsedSymbol[] => {
+        const symbols: ParsedSymbol[] = [];
+        node.forEachChild(child => {
+            const name = symbolName(child, topLevel);
+            if (name === undefined) {
+                // `const a = ...` at the top level is still top level
+                symbols.push(...visit(child, topLevel && (ts.isVariableStatement(child) || ts.isVariableDeclarationList(child))));
+                return;
+            }
+            symbols.push({ name, start: child.getStart(sourceFile), end: child.end, children: visit(child, false) });
+        });
+        return symbols;
+    };
+    return visit(sourceFile, true);
+}
+
+function findScope(text: string, offset: number, languageId: string, strategy: ContextStrategy): TextSpan | undefined {
+    switch (strategy.scoping) {
+        case 'window':
+            return undefined;
+        case 'indentation':
+            return indentationScopeAt(text, offset);
+        case 'symbols': {
+            const symbols = parseSymbols(text, languageId);
+            return symbols
+                ? findDeepestSymbol(symbols, symbol => symbol.start <= offset && offset <= symbol.end)
+                : indentationScopeAt(text, offset);
+        }
+    }
+}
+
+// --- 📨 Request ---
+
+/**
+ * The request for a masked span: the file without the span, the cursor where it was, and the context built
+ * with the same code as the extension (imports, scope or window, redaction). Pinned files, cross-file
+ * context and open tabs depend on the editor session and are not part of the evaluation.
+ */
+export function buildEvalRequest(mask: MaskedSpan, strategy: ContextStrategy, repoName: string): EvalRequest {
+    const { file } = mask;
+    const text = file.text.substring(0, mask.start) + file.text.substring(mask.end);
+    const offset = mask.start;
+
+    const imports = extractImportStatements(text, file.languageId);
+    const scope = findScope(text, offset, file.languageId, strategy);
+    const { promptContext } = buildActiveContext({
+        text, offset, languageId: file.languageId, imports, scope, windowChars: strategy.windowChars
+    });
+
+    const redact = (part: string) => strategy.redactSecrets ? redactSecrets(part).text : part;
+    const lineStart = text.substring(0, offset).lastIndexOf('\n') + 1;
+
+    return {
+        context_text: `${FILE_SEPARATOR}${file.path} ---\n${promptContext.split(CURSOR_MARKER).map(redact).join(CURSOR_MARKER)}`,
+        language_id: file.languageId,
+        prefix: redact(text.substring(lineStart, offset)),
+        repo_name: repoName
+    };
+}
@@ -0,0 +1,63 @@
+import { SuggestionEdit } from "../suggestionEdit";
+import { checkSyntax } from "../syntaxValidation";
+import { expectedText, MaskedSpan } from "./masking";
+
+// -------------------------------------------------------------------
+// 📐 Scoring: how close a suggestion comes to the code that was masked
+// -------------------------------------------------------------------
+
+export interface SampleScore {
+    exactMatch: boolean;       // The same code, ignoring whitespace
+    editSimilarity: number;    // 1 - edit distance / length of the longer text (1 = identical, 0 = nothing in common)
+    compiles: boolean;         // Inserting it adds no syntax errors to the file (see syntaxValidation.ts)
+    empty: boolean;            // No suggestion (or all of it dropped by validation)
+}
+
+// Indentation, trailing spaces and line breaks do not count
+function normalizeWhitespace(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+// Levenshtein distance over the whitespace-normalized texts, as a similarity between 0 and 1
+export function editSimilarity(a: string, b: string): number {
+    const left = normalizeWhitespace(a);
+    const right = normalizeWhitespace(b);
+    if (left.length === 0 && right.length === 0) {
+        return 1;
+    }
+
+    // Two rows of the distance matrix are enough
+    let previous = Array.from({ length: right.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= left.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= right.length; j++) {
+            const substitution = previous[j - 1] + (left[i - 1] === right[j - 1] ? 0 : 1);
+            current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+        }
+        previous = current;
+    }
+    return 1 - previous[right.length] / Math.max(left.length, right.length);
+}
+
+/**
+ * Scores a suggestion for a masked span. A suggestion that replaces characters after the cursor
+ * (`replace`, e.g. a closing bracket it repeats) is compared with the span plus those characters.
+ */
+export async function scoreSuggestion(mask: MaskedSpan, edit: SuggestionEdit): Promise<SampleScore> {
+    const { text, languageId, path } = mask.file;
+    const before = text.substring(0, mask.start);
+    const after = text.substring(mask.end);
+    const expected = expectedText(mask) + after.substring(0, edit.replace);
+
+    // Errors the file already has do not count against the suggestion
+    const context = { languageId, fileName: path };
+    const original = await checkSyntax(text, context);
+    const inserted = await checkSyntax(before + edit.insertText + after.substring(edit.replace), context);
+
+    return {
+        exactMatch: normalizeWhitespace(edit.insertText) === normalizeWhitespace(expected),
+        editSimilarity: editSimilarity(edit.insertText, expected),
+        compiles: inserted.errorCount <= original.errorCount,
+        empty: edit.insertText.trim().length === 0
+    };
+}
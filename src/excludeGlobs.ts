@@ -0,0 +1,56 @@
+// --- Glob Matching for `codeSuggestions.exclude` ---
+
+export const DEFAULT_EXCLUDE_PATTERNS = [".env*", "*.pem", "secrets/**"];
+
+/**
+ * Converts a glob to a regular expression over "/"-separated paths:
+ * `**` spans folders, `*` and `?` stay within one path segment, `{a,b}` is an alternative.
+ * Patterns without a leading "/" match at any depth: "*.pem" matches "certs/server.pem",
+ * "secrets/**" matches everything below any "secrets" folder.
+ */
+export function globToRegExp(pattern: string, caseInsensitive = false): RegExp {
+    let body = "";
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === "*" && pattern[i + 1] === "*") {
+            // "**/" also matches no folder at all
+            const slash = pattern[i + 2] === "/";
+            body += slash ? "(?:.*/)?" : ".*";
+            i += slash ? 2 : 1;
+        } else if (char === "*") {
+            body += "[^/]*";
+        } else if (char === "?") {
+            body += "[^/]";
+        } else if (char === "{") {
+            body += "(?:";
+        } else if (char === "}") {
+            body += ")";
+        } else if (char === ",") {
+            body += body.lastIndexOf("(?:") > body.lastIndexOf(")") ? "|" : ",";
+        } else {
+            body += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+        }
+    }
+
+    const anchored = pattern.startsWith("/");
+    return new RegExp(`${anchored ? "^" : "(?:^|/)"}${anchored ? body.substring(1) : body}$`, caseInsensitive ? "i" : "");
+}
+
+/**
+ * Whether the path (absolute or workspace-relative, either separator) matches any of the patterns.
+ * A pattern also matches everything inside a folder it matches ("secrets" excludes "secrets/db.json").
+ */
+export function matchesAnyGlob(filePath: string, patterns: string[], caseInsensitive = false): boolean {
+    const normalized = filePath.replace(/\\/g, "/");
+    return patterns.some(pattern => {
+        const regex = globToRegExp(pattern.trim(), caseInsensitive);
+        const segments = normalized.split("/");
+        // Try the path itself and each of its parent folders
+        for (let end = segments.length; end > 0; end--) {
+            if (regex.test(segments.slice(0, end).join("/"))) {
+                return true;
+            }
+        }
+        return false;
+    });
+}
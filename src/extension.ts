@@ -1,5 +1,27 @@
 import path from 'path';
 import * as vscode from 'vscode';
+import { readPinnedContextFiles } from './contextFileReader';
+import { collectCrossFileContext, collectNotebookCells, registerEditTracking } from './crossFileContext';
+import { extractImportStatements } from './languageSupport';
+import { ActiveContext, buildActiveContext, CURSOR_MARKER, FILE_SEPARATOR, findDeepestSymbol, indentationScopeAt } from './activeContext';
+import { InflightRequest } from './InflightRequest';
+import { automaticTriggerSkipReason } from './triggerHeuristics';
+import { ContextFileItem, ContextFilesProvider, getContextFiles, isExcludedFile } from './ContextFilesProvider';
+import { CompletionCache } from './completionCache';
+import { SuggestionEdit } from './suggestionEdit';
+import { validateSuggestion, ValidationContext } from './syntaxValidation';
+import {
+  authorizationHeaders, backoffRemainingMs, handleRejectedResponse, registerHealthChecks, registerServerConnection, serverFetch
+} from './serverConnection';
+import { redactSecrets } from './secretRedaction';
+import { log, registerOutputChannel } from './outputChannel';
+import { registerStatusBar, requestStarted } from './statusBar';
+import {
+  InlineCompletionLifecycleHooks, registerAnalytics, suggestionPartiallyAccepted, suggestionShown, trackSuggestions
+} from './suggestionAnalytics';
+import { SuggestionSource } from './suggestionStats';
+import { registerReplay, replayCompletion } from './replayMock';
+import { registerEditSelection } from './editSelection';
 
 // --- Configuration Variables ---
 
@@ -19,135 +41,245 @@ vscode.workspace.onDidChangeConfiguration(e => {
   if (e.affectsConfiguration("codeSuggestions.serverUrl")) {
     const config = vscode.workspace.getConfiguration("codeSuggestions");
     serverUrl = config.get("serverUrl") ?? "http://localhost:3000";
-    console.log("AI server URL changed", serverUrl);
+    log.info(`Server URL changed to ${serverUrl}`);
   }
 
   if (e.affectsConfiguration("codeSuggestions.debugMode")) {
     // Re-fetch the current state of debugMode
     isItDebugMode = isDebugModeEnabled(); 
-    console.log("AI debug mode changed to", isItDebugMode ? "ON (using MOCK data)" : "OFF (using LIVE server)");
+    log.info(`Debug mode ${isItDebugMode ? "ON (using MOCK data)" : "OFF (using LIVE server)"}`);
+  }
+
+  if (e.affectsConfiguration("codeSuggestions.cacheSize")) {
+    completionCache = new CompletionCache(getCacheSize());
   }
 });
 
-// --- Constants ---
+// --- Trigger Mode ---
+
+// "manual": only on the alt+. keybinding, "automatic": as you type (debounced)
+function getTriggerMode(): string {
+  const config = vscode.workspace.getConfiguration("codeSuggestions");
+  return config.get("triggerMode", "manual");
+}
+
+function getDebounceMs(): number {
+  const config = vscode.workspace.getConfiguration("codeSuggestions");
+  return config.get("debounceMs", 300);
+}
+
+// The most recent request, shared with keystrokes that extend its prefix
+let inflightRequest: InflightRequest | undefined;
+
+// --- Completion Cache ---
+
+function getCacheSize(): number {
+  const config = vscode.workspace.getConfiguration("codeSuggestions");
+  return config.get("cacheSize", 100);
+}
+
+let completionCache = new CompletionCache(getCacheSize());
+
+// Model reported by the server with its last suggestion, part of the cache key
+let serverModel: string | undefined;
+
+// Prompt template reported by the server, recorded with each suggestion (see suggestionAnalytics.ts)
+let serverTemplate: string | undefined;
+
+function cacheModelKey(): string {
+  return isItDebugMode ? "mock" : `${serverUrl}|${serverModel ?? "default"}`;
+}
+
+// --- Streaming State ---
+
+// The suggestion currently being streamed. When the stream finishes after the first line
+// was already shown, the provider is re-triggered and serves the refined text from here.
+interface PendingStream {
+  key: string;   // Document, version and cursor offset the stream was started for
+  text: string;  // Latest suggestion text received from the server
+  replace: number; // Characters after the cursor the text replaces
+  done: boolean;
+  abortController: AbortController;
+}
+let pendingStream: PendingStream | undefined;
 
-const FILE_SEPARATOR = "\n\n--- FILE: ";
-const CURSOR_MARKER = "<|CURSOR|>"; // A unique token to mark the position
+function requestKeyFor(document: vscode.TextDocument, position: vscode.Position): string {
+  return `${document.uri.toString()}@${document.version}:${document.offsetAt(position)}`;
+}
 
 // --- Activate Function ---
 
 export function activate(context: vscode.ExtensionContext) {
-  console.log('*** Extension "Code Suggestions" ACTIVATED! ***');
-function findDeepestSymbol(
-    symbols: vscode.DocumentSymbol[], 
-    position: vscode.Position
-): vscode.DocumentSymbol | undefined {
-    
-    for (const symbol of symbols) {
-        if (symbol.range.contains(position)) {
-            // If this symbol has children (e.g., Class has Methods), look deeper
-            if (symbol.children.length > 0) {
-                const child = findDeepestSymbol(symbol.children, position);
-                if (child) {
-                    return child;
-                }
-            }
-            // If no children contain the cursor, this symbol is the deepest one
-            return symbol;
-        }
-    }
-    return undefined;
-}
+  registerOutputChannel(context);
+  log.info('Extension "Code Suggestions" activated');
+  registerStatusBar(context);
+  registerEditTracking(context);
+  registerServerConnection(context);
+  registerHealthChecks(context);
+  registerAnalytics(context);
+  registerReplay(context);
+  registerEditSelection(context);
   // 1. Define the Inline Completion Provider
-  const provider: vscode.InlineCompletionItemProvider = {
+  const provider: vscode.InlineCompletionItemProvider & InlineCompletionLifecycleHooks = {
    async provideInlineCompletionItems(document, position, context, token) {
-        if (context.triggerKind !== vscode.InlineCompletionTriggerKind.Invoke) {
+        const isAutomatic = context.triggerKind === vscode.InlineCompletionTriggerKind.Automatic;
+        if (isAutomatic && getTriggerMode() !== "automatic") {
             return [];
         }
 
+        // Files matching `codeSuggestions.exclude` get no suggestions, so nothing of them is sent
+        if (isExcludedFile(document.uri)) {
+            log.debug(`Suggestions off for excluded file: ${document.uri.fsPath}`);
+            return [];
+        }
+
+        // Latency and context size are recorded with each shown suggestion (local statistics only)
+        const requestKey = requestKeyFor(document, position);
+        let requestStartedAt = Date.now();
+        let contextChars: number | undefined;
+
+        // One item per candidate, VS Code cycles through them with the next/previous inline suggestion commands.
+        // The range covers the characters after the cursor the suggestion replaces (e.g. an auto-closed ")")
+        const lineLength = document.lineAt(position.line).text.length;
+        const toItems = (suggestions: SuggestionEdit[], source: SuggestionSource) => trackSuggestions({
+            requestKey,
+            anchor: {
+                line: `${document.uri.toString()}:${position.line}`,
+                textBefore: document.lineAt(position.line).text.substring(0, position.character)
+            },
+            languageId: document.languageId,
+            model: isItDebugMode ? "mock" : serverModel ?? "unknown",
+            template: isItDebugMode ? undefined : serverTemplate,
+            source,
+            trigger: isAutomatic ? "automatic" : "manual",
+            latencyMs: Date.now() - requestStartedAt,
+            contextChars
+        }, suggestions
+            .filter(suggestion => suggestion.insertText.length > 0)
+            .map(suggestion => new vscode.InlineCompletionItem(
+                suggestion.insertText,
+                new vscode.Range(position, position.with(undefined, Math.min(position.character + suggestion.replace, lineLength)))
+            )));
+
+        // Re-triggered after a stream delivered more text: serve the refined suggestion
+        if (pendingStream?.key === requestKey && pendingStream.text) {
+            return toItems([{ insertText: pendingStream.text, replace: pendingStream.replace }], "stream");
+        }
+
+        // Dismissed or typed-ahead suggestions are served from the cache without a network call
         const fullText = document.getText();
         const offset = document.offsetAt(position);
-        const line = document.lineAt(position);
-        const prefix = line.text.substring(0, position.character);
-
-        let promptContext = "";
-
-        // --- 1. GRANULAR: Extract Imports ---
-        // Simple regex to grab all import lines from the top of the file
-        // This ensures the AI knows your types even if we hide other code.
-        const importLines = fullText.match(/^import .*?;/gm) || [];
-        const importsText = importLines.join('\n');
-
-        // --- 2. GRANULAR: Find Active Scope ---
-        try {
-            // Ask VS Code for the file structure (AST)
-            const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
-                'vscode.executeDocumentSymbolProvider',
-                document.uri
-            );
-
-            const activeSymbol = symbols ? findDeepestSymbol(symbols, position) : undefined;
-
-            if (activeSymbol) {
-                // If we found a function/method, only send that!
-                // We grab the text strictly within that symbol's range
-                const symbolText = document.getText(activeSymbol.range);
-                
-                // Calculate where the cursor is RELATIVE to the start of this symbol
-                const symbolStartOffset = document.offsetAt(activeSymbol.range.start);
-                const relativeCursorOffset = offset - symbolStartOffset;
-
-                // Insert the cursor marker inside the symbol text
-                const textWithCursor = 
-                    symbolText.substring(0, relativeCursorOffset) + 
-                    CURSOR_MARKER + 
-                    symbolText.substring(relativeCursorOffset);
-
-                console.log(`[AI] Focused on symbol: ${activeSymbol.name}`);
-                
-                // Combine: Imports + The specific function we are working on
-                promptContext = `${importsText}\n\n// ... (irrelevant code hidden) ...\n\n${textWithCursor}`;
-            
-            } else {
-                // Fallback: If we are in global scope (not in a function), use the Sliding Window approach
-                // (You can reuse the sliding window logic here as a backup)
-                const start = Math.max(0, offset - 1000);
-                const end = Math.min(fullText.length, offset + 1000);
-                const slice = fullText.substring(start, end);
-                promptContext = slice.substring(0, offset - start) + CURSOR_MARKER + slice.substring(offset - start);
+        const textBefore = fullText.substring(0, offset);
+        const textAfter = fullText.substring(offset);
+        const cached = completionCache.lookup(document.uri.toString(), textBefore, textAfter, cacheModelKey());
+        if (cached) {
+            log.debug(`Cache hit (${completionCache.hits} hits / ${completionCache.misses} misses)`);
+            return toItems(cached, "cache");
+        }
+
+        // Keystrokes that extend the prefix of the in-flight request share its result
+        const shared = await inflightRequest?.serve(document, position, token);
+        if (shared !== undefined) {
+            return token.isCancellationRequested ? [] : toItems(shared, "inflight");
+        }
+
+        if (isAutomatic) {
+            const skipReason = automaticTriggerSkipReason(document, position);
+            if (skipReason) {
+                log.debug(`Automatic trigger skipped: ${skipReason}`);
+                return [];
+            }
+
+            // Debounce: wait until the user pauses typing (VS Code cancels the token on the next keystroke)
+            await new Promise(resolve => setTimeout(resolve, getDebounceMs()));
+            if (token.isCancellationRequested) {
+                return [];
             }
+        }
+
+        const { combinedContext, prefix } = await buildRequestContext(document, position);
+        contextChars = combinedContext.length;
 
-        } catch (err) {
-            console.error("Error getting symbols:", err);
-            // Fallback to simple text if symbol provider fails
-            promptContext = fullText; 
+        // --- 5. Send Request ---
+        if (token.isCancellationRequested) {
+            return [];
         }
 
-        // --- 3. Formatting ---
-        const combinedContext = `${FILE_SEPARATOR}${document.uri.fsPath} ---\n${promptContext}`;
+        // Finished suggestions are checked against the file before they are shown (or cached)
+        const validationContext: ValidationContext = {
+            textBefore, textAfter, languageId: document.languageId, fileName: document.fileName
+        };
+        // A validator that fails itself (e.g. TypeScript cannot be loaded) lets the suggestion through unchecked
+        const validateOne = (edit: SuggestionEdit) => validateSuggestion(edit, validationContext, message => log.info(message)).catch(err => {
+            log.error("Syntax validation failed, showing the suggestion unvalidated:", err);
+            return edit;
+        });
+        const validate = async (suggestions: SuggestionEdit[]) => isSyntaxValidationEnabled()
+            ? (await Promise.all(suggestions.map(validateOne))).filter(edit => edit.insertText.length > 0)
+            : suggestions;
+
+        const cacheKey = completionCache.keyFor(document.uri.toString(), textBefore, textAfter, cacheModelKey());
+        const cache = completionCache;
+        const abortController = new AbortController();
+        // Several candidates come from /complete in one response, a single one can be streamed
+        const candidateCount = getCandidateCount();
+        const streamed = isStreamingEnabled() && candidateCount === 1;
+        requestStartedAt = Date.now();
+        const request = streamed
+            ? getStreamedSuggestion(requestKey, combinedContext, prefix, document.languageId, abortController.signal,
+                async finalEdit => {
+                    const [valid = NO_SUGGESTION] = await validate([finalEdit]);
+                    cache.store(cacheKey, [valid]);
+                    return valid;
+                }).then(edit => [edit])
+            : getAISuggestion(combinedContext, prefix, document.languageId, candidateCount, abortController.signal)
+                .then(validate)
+                .then(suggestions => {
+                    cache.store(cacheKey, suggestions);
+                    return suggestions;
+                });
+
+        // Superseded requests are aborted once VS Code cancels them and no later keystroke adopts them
+        inflightRequest = new InflightRequest(document, position, abortController, request);
+        inflightRequest.attach(token);
+
+        const suggestions = await request;
+
+        if (token.isCancellationRequested) {
+            return [];
+        }
 
-        // --- 4. Send Request ---
-        const suggestion = await getAISuggestion(combinedContext, prefix);
+        return toItems(suggestions, isItDebugMode ? "mock" : streamed ? "stream" : "server");
+    },
 
-        if (!suggestion) return [];
+    // Outcomes for the local statistics (see suggestionAnalytics.ts)
+    handleDidShowCompletionItem(item) {
+        suggestionShown(item);
+    },
 
-        return [
-            new vscode.InlineCompletionItem(
-                suggestion,
-                new vscode.Range(position, position)
-            )
-        ];
+    handleDidPartiallyAcceptCompletionItem(item, info) {
+        suggestionPartiallyAccepted(item, typeof info === "number" ? info : info.acceptedLength);
     }
   };
 
   // 2. Register the automatic provider
   // It is now conditional (see the check inside provideInlineCompletionItems)
+  // Registered again when `codeSuggestions.languages` changes
+  let providerRegistration = vscode.languages.registerInlineCompletionItemProvider(
+    suggestionDocumentSelector(),
+    provider
+  );
   context.subscriptions.push(
-    vscode.languages.registerInlineCompletionItemProvider(
-      // Ensure this matches the languages you want to support
-      { scheme: "file", language: "typescript" }, 
-      provider
-    )
+    { dispose: () => providerRegistration.dispose() },
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration("codeSuggestions.languages")) {
+        providerRegistration.dispose();
+        providerRegistration = vscode.languages.registerInlineCompletionItemProvider(
+          suggestionDocumentSelector(),
+          provider
+        );
+      }
+    })
   );
 
   // 3. Register a command that manually triggers the provider
@@ -161,64 +293,572 @@ function findDeepestSymbol(
   
   context.subscriptions.push(disposableCommand);
   
-  // 4. Register the context menu command (to fix the previous error, if applicable)
-  const removeContextFileDisposable = vscode.commands.registerCommand(
-    'codeSuggestions.removeContextFile', 
-    (fileUri: vscode.Uri) => {
-      // Placeholder implementation for the context menu item
-      if (fileUri) {
-          vscode.window.showInformationMessage(`Context file removed: ${fileUri.fsPath}`);
-      } else {
-          vscode.window.showInformationMessage('Remove context file command triggered.');
+  // 4. Register the "Context Files" view (drag files from the Explorer to pin them, drag items to reorder)
+  const contextFilesProvider = new ContextFilesProvider();
+  const contextTreeView = vscode.window.createTreeView('codeSuggestions.contextView', {
+    treeDataProvider: contextFilesProvider,
+    dragAndDropController: contextFilesProvider,
+    canSelectMany: true
+  });
+  context.subscriptions.push(contextFilesProvider, contextTreeView);
+
+  // 5. Register the Context Files commands
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'codeSuggestions.removeContextFile',
+      async (item?: ContextFileItem, selectedItems?: ContextFileItem[]) => {
+        // Invoked from the view: remove the clicked item (or the whole selection)
+        if (item) {
+          const items = selectedItems?.length ? selectedItems : [item];
+          await contextFilesProvider.removeFiles(items.map(i => i.fullPath));
+          return;
+        }
+
+        // Invoked from the Command Palette: let the user pick
+        const picked = await vscode.window.showQuickPick(getContextFiles(), {
+          placeHolder: 'Select context files to remove',
+          canPickMany: true
+        });
+        if (picked?.length) {
+          await contextFilesProvider.removeFiles(picked);
+        }
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      'codeSuggestions.addContextFile',
+      async (fileUri?: vscode.Uri, selectedUris?: vscode.Uri[]) => {
+        // From the Explorer context menu we get the clicked file, otherwise use the active editor
+        const uris = selectedUris?.length ? selectedUris : [fileUri ?? vscode.window.activeTextEditor?.document.uri];
+        const fileUris = uris.filter((uri): uri is vscode.Uri => uri?.scheme === 'file');
+
+        if (fileUris.length === 0) {
+          vscode.window.showWarningMessage('Code Suggestions: no saved file to add to the context.');
+          return;
+        }
+        await contextFilesProvider.addFiles(fileUris);
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      'codeSuggestions.clearContextFiles',
+      async () => {
+        const answer = await vscode.window.showWarningMessage(
+          'Remove all pinned context files?', { modal: true }, 'Clear All'
+        );
+        if (answer === 'Clear All') {
+          await contextFilesProvider.clear();
+        }
+      }
+    )
+  );
+
+  // 6. Register the request preview (exactly what a suggestion request at the cursor would send)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('codeSuggestions.previewRequest', previewRequest)
+  );
+}
+
+// --- Request Context ---
+
+// What is sent for a cursor position: the prompt context and the cursor line's prefix, with secrets masked
+interface RequestContext {
+  combinedContext: string;
+  prefix: string;
+  redactions: number;
+  redactedKinds: string[];
+}
+
+/**
+ * Builds the context for a request: imports plus the enclosing symbol (or indented block, or a window
+ * around the cursor) with the cursor marker, after the pinned files, cross-file context and notebook cells.
+ */
+async function buildRequestContext(document: vscode.TextDocument, position: vscode.Position): Promise<RequestContext> {
+  const fullText = document.getText();
+  const offset = document.offsetAt(position);
+  const line = document.lineAt(position);
+
+  // --- 1. GRANULAR: Extract Imports ---
+  // Grab all import statements of the document's language (see languageSupport.ts)
+  // This ensures the AI knows your types even if we hide other code.
+  const imports = extractImportStatements(fullText, document.languageId);
+  let active: ActiveContext;
+
+  // --- 2. GRANULAR: Find Active Scope ---
+  try {
+      // Ask VS Code for the file structure (AST)
+      const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
+          'vscode.executeDocumentSymbolProvider',
+          document.uri
+      );
+
+      // No symbol provider for this language (or none installed): guess the block from indentation
+      const hasSymbolProvider = !!symbols && symbols.length > 0;
+      const activeSymbol = hasSymbolProvider ? findDeepestSymbol(symbols, symbol => symbol.range.contains(position)) : undefined;
+      const scope = activeSymbol
+          ? { start: document.offsetAt(activeSymbol.range.start), end: document.offsetAt(activeSymbol.range.end) }
+          : hasSymbolProvider ? undefined : indentationScopeAt(fullText, offset);
+
+      // If we found a function/method, only that is sent (with the imports), otherwise a window around the cursor
+      active = buildActiveContext({ text: fullText, offset, languageId: document.languageId, imports, scope });
+      if (scope) {
+          log.debug(`Focused on ${activeSymbol ? `symbol: ${activeSymbol.name}` : `indented block at line ${document.positionAt(scope.start).line + 1}`}`);
       }
+
+  } catch (err) {
+      log.error("Error getting symbols:", err);
+      // Fallback to simple text if symbol provider fails
+      active = { promptContext: fullText, scopeText: "" };
+  }
+  const { promptContext, scopeText } = active;
+
+  // --- 3. Redaction ---
+  // Likely secrets are masked in every part before it leaves the editor (the cursor marker is kept intact)
+  const redaction = { count: 0, kinds: new Set<string>() };
+  const redact = (text: string) => {
+    if (!isRedactionEnabled()) {
+      return text;
     }
+    const result = redactSecrets(text);
+    redaction.count += result.redactions;
+    result.kinds.forEach(kind => redaction.kinds.add(kind));
+    return result.text;
+  };
+
+  // --- 4. Formatting ---
+  // Pinned "Context Files" go first, each as its own block, so the active file stays closest to the cursor
+  const pinnedFiles = await readPinnedContextFiles(document.uri);
+  const pinnedContext = pinnedFiles
+      .map(file => `${FILE_SEPARATOR}${file.path} ---\n${redact(file.content)}`)
+      .join('');
+
+  // Signatures of imported symbols and similar open-tab snippets, after the pinned files (lower priority)
+  const crossFileBlocks = await collectCrossFileContext(document, position, imports, scopeText, getContextFiles());
+  const crossFileContext = crossFileBlocks
+      .map(block => `${FILE_SEPARATOR}${block.path} ---\n${redact(block.content)}`)
+      .join('');
+
+  // Notebook cells: the cells above this one, like the rest of the same file
+  const notebookCells = collectNotebookCells(document);
+  const notebookContext = notebookCells
+      ? `${FILE_SEPARATOR}${notebookCells.path} ---\n${redact(notebookCells.content)}`
+      : "";
+
+  const activeContext = promptContext.split(CURSOR_MARKER).map(redact).join(CURSOR_MARKER);
+  const combinedContext = `${pinnedContext}${crossFileContext}${notebookContext}${FILE_SEPARATOR}${document.uri.fsPath} ---\n${activeContext}`;
+  const prefix = redact(line.text.substring(0, position.character));
+
+  if (redaction.count > 0) {
+    log.info(`Redacted ${redaction.count} likely secret(s): ${Array.from(redaction.kinds).join(", ")}`);
+  }
+  return { combinedContext, prefix, redactions: redaction.count, redactedKinds: Array.from(redaction.kinds) };
+}
+
+function isRedactionEnabled(): boolean {
+  const config = vscode.workspace.getConfiguration("codeSuggestions");
+  return config.get("redactSecrets", true);
+}
+
+// Opens the request a suggestion at the cursor would send (URL, headers, context and body) in a new editor
+async function previewRequest(): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showWarningMessage("Code Suggestions: open a file to preview its request.");
+    return;
+  }
+  const { document } = editor;
+  const position = editor.selection.active;
+
+  const lines: string[] = [];
+  if (isExcludedFile(document.uri)) {
+    lines.push("This file matches `codeSuggestions.exclude`: no request is sent for it.");
+  } else {
+    const { combinedContext, prefix, redactions, redactedKinds } = await buildRequestContext(document, position);
+    const candidateCount = getCandidateCount();
+    const streamed = isStreamingEnabled() && candidateCount === 1;
+    const body = buildRequestBody(combinedContext, prefix, document.languageId, streamed ? undefined : candidateCount);
+    // The key itself stays out of the preview
+    const headers = Object.entries(requestHeaders())
+      .map(([name, value]) => `${name}: ${name === "Authorization" ? "Bearer ********" : value}`);
+
+    lines.push(
+      `POST ${getServerUrl()}${streamed ? "/complete/stream" : "/complete"}`,
+      ...headers,
+      "",
+      redactions > 0
+        ? `Redacted secrets: ${redactions} (${redactedKinds.join(", ")})`
+        : `Redacted secrets: none${isRedactionEnabled() ? "" : " (codeSuggestions.redactSecrets is off)"}`
+    );
+    if (isItDebugMode) {
+      lines.push("Debug mode is on: suggestions are replayed from recorded fixtures and nothing is sent.");
+    }
+    lines.push(
+      "",
+      "--- context_text ---",
+      combinedContext,
+      "",
+      "--- Request body ---",
+      JSON.stringify(body, null, 2)
+    );
+  }
+
+  const preview = await vscode.workspace.openTextDocument({ content: lines.join("\n"), language: "plaintext" });
+  await vscode.window.showTextDocument(preview, { preview: true, viewColumn: vscode.ViewColumn.Beside });
+}
+
+// --- Document Selector ---
+
+// Saved files, untitled editors and notebook cells
+const SUGGESTION_SCHEMES = ["file", "untitled", "vscode-notebook-cell"];
+const DEFAULT_LANGUAGES = ["typescript", "typescriptreact", "javascript", "javascriptreact", "python", "go", "rust", "java", "csharp"];
+
+function suggestionDocumentSelector(): vscode.DocumentFilter[] {
+  const config = vscode.workspace.getConfiguration("codeSuggestions");
+  const languages = config.get<string[]>("languages", DEFAULT_LANGUAGES);
+  return SUGGESTION_SCHEMES.flatMap(scheme =>
+    languages.map(language => language === "*" ? { scheme } : { scheme, language })
   );
-  context.subscriptions.push(removeContextFileDisposable);
+}
+
+// --- Syntax Validation ---
+
+function isSyntaxValidationEnabled(): boolean {
+  const config = vscode.workspace.getConfiguration("codeSuggestions");
+  return config.get("validateSyntax", true);
+}
+
+// --- Candidates ---
+
+// How many alternatives to ask for (1 = a single, streamable suggestion)
+function getCandidateCount(): number {
+  const config = vscode.workspace.getConfiguration("codeSuggestions");
+  return Math.max(1, Math.floor(config.get("candidateCount", 1)));
 }
 
 // --- AI Suggestion Function ---
 
+// Statuses the server answers with instead of a suggestion (see the request queue in server-file.ts)
+const NON_COMPLETION_STATUSES = ['busy', 'superseded', 'cancelled', 'error'];
+
+// Identifies this window to the server, so a newer request replaces our older one in its queue,
+// and the user to the server's API key check (see serverConnection.ts)
+function requestHeaders(): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    "X-Client-Id": vscode.env.sessionId,
+    ...authorizationHeaders()
+  };
+}
+
+// After a 429 the server asked us to wait: no request until then
+function isBackingOff(): boolean {
+  const remaining = backoffRemainingMs();
+  if (remaining > 0) {
+    log.debug(`Request skipped: rate limited for another ${Math.ceil(remaining / 1000)}s`);
+  }
+  return remaining > 0;
+}
+
+// Always the most recent configuration value
+function getServerUrl(): string {
+  return vscode.workspace.getConfiguration("codeSuggestions").get("serverUrl") ?? "http://localhost:3000";
+}
+
+// The JSON body of `/complete` and `/complete/stream` (`candidates` only for `/complete`)
+function buildRequestBody(combinedContext: string, prefix: string, languageId: string, candidateCount?: number) {
+  return {
+    context_text: combinedContext,
+    language_id: languageId,
+    prefix: prefix,
+    repo_name: vscode.workspace.name,
+    ...(candidateCount !== undefined && { candidates: candidateCount })
+  };
+}
+
+// Requests at info level, the whole prompt context at trace level
+function logRequest(route: string, combinedContext: string, languageId: string): void {
+  log.info(`POST ${route} (${languageId}, ${combinedContext.length} chars of context)`);
+  log.trace(combinedContext);
+}
+
+function isAbortError(err: unknown): boolean {
+  return err instanceof Error && err.name === "AbortError";
+}
+
 async function getAISuggestion(
   combinedContext: string, // Accepts the single, combined string
-  prefix: string 
-): Promise<string> {
+  prefix: string,
+  languageId: string, // Of the document the suggestion is for (not necessarily the active editor's)
+  candidateCount: number,
+  signal?: AbortSignal // Aborted when VS Code cancels the request (e.g. the user kept typing)
+): Promise<SuggestionEdit[]> {
   
   if (isItDebugMode) {
-    console.log(`[DEBUG MODE] ${combinedContext}`);
+    log.trace(`[DEBUG MODE] ${combinedContext}`);
     const cursorPos = combinedContext.indexOf(CURSOR_MARKER);
     const contextSample = combinedContext.substring(cursorPos - 20, cursorPos + 20).replace(/\n/g, ' ');
-    console.log(`[DEBUG MODE] Context near cursor: ...${contextSample}...`);
-    return 'suggestion is here (MOCK on single string)';
+    log.debug(`[DEBUG MODE] Context near cursor: ...${contextSample}...`);
+
+    // Recorded server answers instead of a live request (see replayMock.ts)
+    const data = await replayCompletion(combinedContext, prefix, candidateCount, signal);
+    if (data.status !== "ok") {
+      log.info(`[DEBUG MODE] Replay finished without suggestion: ${data.status}`, data.error ?? "");
+      return [];
+    }
+    return data.candidates;
   }
 
   // PRODUCTION/LIVE PATH
+  if (isBackingOff()) {
+    return [];
+  }
+  const status = requestStarted();
   try {
-    // Use the most recent configuration value
-    const currentServerUrl = vscode.workspace.getConfiguration("codeSuggestions").get("serverUrl") 
-      ?? "http://localhost:3000";
-      
-    const requestBody = {
-      context_text: combinedContext,
-      language_id: vscode.window.activeTextEditor?.document.languageId, 
-      prefix: prefix
-    };
-
-    const response = await fetch(`${currentServerUrl}/complete`, {
+    logRequest("/complete", combinedContext, languageId);
+    const response = await serverFetch(`${getServerUrl()}/complete`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(requestBody)
+      headers: requestHeaders(),
+      body: JSON.stringify(buildRequestBody(combinedContext, prefix, languageId, candidateCount)),
+      signal
     });
 
     if (!response.ok) {
-      console.error(`AI request failed: HTTP ${response.status}`);
-      return "";
+      const data = await response.json().catch(() => ({})) as any;
+      status.fail(`HTTP ${response.status}${data.error ? `: ${data.error}` : ""}`);
+      if (!handleRejectedResponse(response, data)) {
+        log.error(`Request failed: HTTP ${response.status}`, data.status ?? "");
+      }
+      return [];
     }
     
     const data = await response.json() as any;
-    return data.text ?? "";
+    if (NON_COMPLETION_STATUSES.includes(data.status)) {
+      if (data.status === "error") {
+        status.fail(data.error ?? "the server could not generate a suggestion");
+      }
+      log.info(`Request finished without suggestion: ${data.status}`, data.error ?? "");
+      return [];
+    }
+    serverModel = data.model ?? serverModel;
+    serverTemplate = data.template ?? serverTemplate;
+    // Older servers only send `text`
+    const candidates: SuggestionEdit[] = data.candidates ?? (data.text ? [{ insertText: data.text, replace: 0 }] : []);
+    log.info(`Response: ${candidates.length} candidate(s)${data.model ? ` from ${data.model}` : ""}`);
+    candidates.forEach((candidate, index) => log.trace(`Candidate ${index + 1}: ${JSON.stringify(candidate)}`));
+    return candidates;
+  } catch (err) {
+    if (isAbortError(err)) {
+      status.cancel();
+      return [];
+    }
+    status.fail(err instanceof Error ? err.message : String(err));
+    log.error("Request failed:", err);
+    return [];
+  } finally {
+    status.end();
+  }
+}
+
+// --- Streaming Suggestion Functions ---
+
+function isStreamingEnabled(): boolean {
+  const config = vscode.workspace.getConfiguration("codeSuggestions");
+  return config.get("streaming", true);
+}
+
+/**
+ * Starts a streamed request and resolves as soon as the first line of the suggestion is complete
+ * (or the stream ends). When more text arrives afterwards, the inline suggestion is re-triggered
+ * so the provider picks up the refined text from `pendingStream`.
+ */
+function getStreamedSuggestion(
+  key: string,
+  combinedContext: string,
+  prefix: string,
+  languageId: string,
+  signal: AbortSignal,
+  finalize: (finalEdit: SuggestionEdit) => Promise<SuggestionEdit> // Validates the complete suggestion (not called when aborted)
+): Promise<SuggestionEdit> {
+  // A new request supersedes the stream still running for an older cursor position
+  pendingStream?.abortController.abort();
+
+  const stream: PendingStream = { key, text: "", replace: 0, done: false, abortController: new AbortController() };
+  pendingStream = stream;
+
+  return new Promise(resolve => {
+    let resolved = false;
+    const settle = () => {
+      if (!resolved) {
+        resolved = true;
+        resolve({ insertText: stream.text, replace: stream.replace });
+      }
+    };
+
+    // Cancelled before anything was shown: stop the stream. Once shown, it keeps running to refine the text.
+    const onAbort = () => {
+      if (!resolved) {
+        stream.abortController.abort();
+        stream.text = "";
+        settle();
+      }
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    streamAISuggestion(combinedContext, prefix, languageId, stream.abortController.signal, edit => {
+      stream.text = edit.insertText;
+      stream.replace = edit.replace;
+      // Show the suggestion early, as soon as the first line is finished
+      if (edit.insertText.includes("\n")) {
+        settle();
+      }
+    }).then(async streamedEdit => {
+      if (stream.abortController.signal.aborted) {
+        signal.removeEventListener("abort", onAbort);
+        settle();
+        return;
+      }
+      let finalEdit = streamedEdit;
+      try {
+        finalEdit = await finalize(streamedEdit);
+      } catch (err) {
+        log.error("Finishing the streamed suggestion failed, keeping it unvalidated:", err);
+      }
+      signal.removeEventListener("abort", onAbort);
+
+      const shownText = stream.text;
+      const shownReplace = stream.replace;
+      stream.done = true;
+
+      if (!resolved) {
+        stream.text = finalEdit.insertText;
+        stream.replace = finalEdit.replace;
+        settle();
+        return;
+      }
+
+      // Already showing the first line: a final text that fails validation does not replace it
+      if (!finalEdit.insertText) {
+        return;
+      }
+      stream.text = finalEdit.insertText;
+      stream.replace = finalEdit.replace;
+
+      // Only refresh if the cursor is still where the stream started and the text changed
+      const editor = vscode.window.activeTextEditor;
+      if (
+        pendingStream === stream &&
+        (finalEdit.insertText !== shownText || finalEdit.replace !== shownReplace) &&
+        editor &&
+        requestKeyFor(editor.document, editor.selection.active) === key
+      ) {
+        vscode.commands.executeCommand('editor.action.inlineSuggest.trigger');
+      }
+    }).catch(err => {
+      // Never leave the provider waiting
+      log.error("Streamed suggestion failed:", err);
+      signal.removeEventListener("abort", onAbort);
+      stream.done = true;
+      settle();
+    });
+  });
+}
+
+const NO_SUGGESTION: SuggestionEdit = { insertText: "", replace: 0 };
+
+/**
+ * Reads the NDJSON stream from `/complete/stream`. Each line carries the whole cleaned suggestion so far
+ * and how many characters after the cursor it replaces, which is passed to `onUpdate`. Resolves with the final suggestion.
+ * Falls back to the non-streaming `/complete` route when the server does not offer streaming.
+ */
+async function streamAISuggestion(
+  combinedContext: string,
+  prefix: string,
+  languageId: string,
+  signal: AbortSignal,
+  onUpdate: (edit: SuggestionEdit) => void
+): Promise<SuggestionEdit> {
+
+  if (isItDebugMode) {
+    return (await getAISuggestion(combinedContext, prefix, languageId, 1, signal))[0] ?? NO_SUGGESTION;
+  }
+  if (isBackingOff()) {
+    return NO_SUGGESTION;
+  }
+
+  const status = requestStarted();
+  try {
+    logRequest("/complete/stream", combinedContext, languageId);
+    const response = await serverFetch(`${getServerUrl()}/complete/stream`, {
+      method: "POST",
+      headers: requestHeaders(),
+      body: JSON.stringify(buildRequestBody(combinedContext, prefix, languageId)),
+      signal
+    });
+
+    if (response.status === 404) {
+      log.info("Server has no streaming route, falling back to /complete");
+      status.cancel(); // The fallback request reports its own status
+      return (await getAISuggestion(combinedContext, prefix, languageId, 1, signal))[0] ?? NO_SUGGESTION;
+    }
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => ({})) as any;
+      status.fail(`HTTP ${response.status}${data.error ? `: ${data.error}` : ""}`);
+      if (!handleRejectedResponse(response, data)) {
+        log.error(`Stream request failed: HTTP ${response.status}`, data.status ?? "");
+      }
+      return NO_SUGGESTION;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = "";
+    let edit = NO_SUGGESTION;
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffered += decoder.decode(value, { stream: true });
+
+      const lines = buffered.split("\n");
+      buffered = lines.pop() ?? "";
+
+      for (const line of lines) {
+        if (!line.trim()) {
+          continue;
+        }
+        const data = JSON.parse(line) as {
+          text?: string; replace?: number; status?: string; error?: string; done?: boolean; model?: string; template?: string
+        };
+        if (data.status && NON_COMPLETION_STATUSES.includes(data.status)) {
+          // Superseded or failed mid-stream: whatever arrived so far is not a finished suggestion
+          if (data.status === "error") {
+            status.fail(data.error ?? "the server could not generate a suggestion");
+          }
+          log.info(`Stream finished without suggestion: ${data.status}`, data.error ?? "");
+          return NO_SUGGESTION;
+        }
+        edit = { insertText: data.text ?? edit.insertText, replace: data.replace ?? edit.replace };
+        serverModel = data.model ?? serverModel;
+        serverTemplate = data.template ?? serverTemplate;
+        onUpdate(edit);
+      }
+    }
+    log.info(`Stream finished: ${edit.insertText.length} chars${serverModel ? ` from ${serverModel}` : ""}`);
+    log.trace(`Suggestion: ${JSON.stringify(edit)}`);
+    return edit;
   } catch (err) {
-    console.error("AI request failed:", err);
-    return "";
+    if (isAbortError(err)) {
+      status.cancel();
+      return NO_SUGGESTION;
+    }
+    status.fail(err instanceof Error ? err.message : String(err));
+    log.error("Stream request failed:", err);
+    return NO_SUGGESTION;
+  } finally {
+    status.end();
   }
 }
 
@@ -0,0 +1,270 @@
+// --- Types ---
+
+export interface ImportedName {
+    name: string;
+    offset: number; // Offset of the name in the document (where a definition lookup starts)
+}
+
+export interface ImportStatement {
+    text: string;
+    start: number;          // Offset of the statement in the document
+    names: ImportedName[];  // Local names it binds
+}
+
+interface LanguageSupport {
+    lineComment?: string;                   // Used for markers like "... (irrelevant code hidden) ..."
+    blockComment?: [string, string];        // For languages without line comments (HTML, CSS)
+    importStatements: RegExp[];             // Global + multiline regexes, one match per statement
+    importedNames?: (statement: string, start: number) => ImportedName[];
+}
+
+// --- Import Statement Patterns ---
+
+// ES modules (multi-line and semicolon-less too) and CommonJS require
+const JS_IMPORT = /^[ \t]*import\b[^;'"]*?(['"])[^'"\n]+\1[ \t]*;?/gm;
+const JS_REQUIRE = /^[ \t]*(?:const|let|var)\s+[^=;]+=\s*require\(\s*(['"])[^'"\n]+\1\s*\)[ \t]*;?/gm;
+
+// "from a.b import (c, d as e)" and "import a.b as c, d"
+const PYTHON_FROM_IMPORT = /^[ \t]*from[ \t]+[\w.]+[ \t]+import[ \t]+(?:\([^)]*\)|[^\n]*)/gm;
+const PYTHON_IMPORT = /^[ \t]*import[ \t]+[\w.]+(?:[ \t]+as[ \t]+\w+)?(?:[ \t]*,[ \t]*[\w.]+(?:[ \t]+as[ \t]+\w+)?)*/gm;
+
+// Import blocks "import ( ... )" and single imports, with an optional alias
+const GO_IMPORT_BLOCK = /^import[ \t]*\([^)]*\)/gm;
+const GO_IMPORT = /^import[ \t]+(?:[\w.]+[ \t]+)?"[^"\n]+"/gm;
+
+// "use a::b::{C, d as e};", optionally "pub use"
+const RUST_USE = /^[ \t]*(?:pub(?:\([^)]*\))?[ \t]+)?use[ \t]+[^;]+;/gm;
+
+const JAVA_IMPORT = /^[ \t]*import[ \t]+(?:static[ \t]+)?[\w.]+(?:\.\*)?[ \t]*;/gm;
+
+// "using A.B;", "using static A.B;", "using Alias = A.B;", "global using A;" (not "using var x = ...")
+const CSHARP_USING = /^[ \t]*(?:global[ \t]+)?using[ \t]+(?:static[ \t]+)?(?:\w+[ \t]*=[ \t]*)?[\w.]+[ \t]*;/gm;
+
+// --- Imported Names ---
+
+// The last identifier of each comma-separated part is the local name ("a", "b as c", "{ d: e }")
+function lastIdentifiers(clause: string, clauseStart: number, keywords: string[]): ImportedName[] {
+    const names: ImportedName[] = [];
+    for (const part of clause.matchAll(/[^,{}()]+/g)) {
+        const identifiers = Array.from(part[0].matchAll(/[A-Za-z_$][\w$]*/g))
+            .filter(match => !keywords.includes(match[0]));
+        const local = identifiers.pop();
+        if (local) {
+            names.push({ name: local[0], offset: clauseStart + (part.index ?? 0) + (local.index ?? 0) });
+        }
+    }
+    return names;
+}
+
+function jsImportedNames(statement: string, start: number): ImportedName[] {
+    // The binding clause: between "import" and "from", or between "const" and "= require"
+    const clauseMatch = statement.match(/^(\s*import\s+(?:type\s+)?)([\s\S]*?)\s+from\s/)
+        ?? statement.match(/^(\s*(?:const|let|var)\s+)([\s\S]*?)\s*=\s*require/);
+    if (!clauseMatch) {
+        return []; // Side-effect import ("import './styles'")
+    }
+    // "a", "{ a, b as c, type D }", "* as ns", "{ a: b }"
+    return lastIdentifiers(clauseMatch[2], start + clauseMatch[1].length, ['as', 'type']);
+}
+
+function pythonImportedNames(statement: string, start: number): ImportedName[] {
+    const fromMatch = statement.match(/^(\s*from\s+[\w.]+\s+import\s+)([\s\S]*)$/);
+    if (fromMatch) {
+        return lastIdentifiers(fromMatch[2], start + fromMatch[1].length, ['as'])
+            .filter(entry => entry.name !== '*');
+    }
+
+    // "import a.b" binds "a", "import a.b as c" binds "c"
+    const clauseMatch = statement.match(/^(\s*import\s+)([\s\S]*)$/);
+    if (!clauseMatch) {
+        return [];
+    }
+    const clauseStart = start + clauseMatch[1].length;
+    const names: ImportedName[] = [];
+    for (const part of clauseMatch[2].matchAll(/[^,]+/g)) {
+        const alias = part[0].match(/\bas\s+(\w+)/);
+        const local = alias ?? part[0].match(/\w+/);
+        if (local) {
+            const index = (local.index ?? 0) + (alias ? alias[0].lastIndexOf(alias[1]) : 0);
+            names.push({ name: local[1] ?? local[0], offset: clauseStart + (part.index ?? 0) + index });
+        }
+    }
+    return names;
+}
+
+function rustImportedNames(statement: string, start: number): ImportedName[] {
+    // Leaves of the use tree: the identifier right before ",", "}" or ";" (the alias when there is one)
+    const names: ImportedName[] = [];
+    for (const match of statement.matchAll(/(\w+)\s*(?=[,};])/g)) {
+        if (!['self', 'super', 'crate'].includes(match[1])) {
+            names.push({ name: match[1], offset: start + (match.index ?? 0) });
+        }
+    }
+    return names;
+}
+
+function javaImportedNames(statement: string, start: number): ImportedName[] {
+    // The class (or static member) is the last segment, wildcard imports bind nothing we can look up
+    const match = statement.match(/\.(\w+)\s*;/);
+    return match ? [{ name: match[1], offset: start + (match.index ?? 0) + 1 }] : [];
+}
+
+// --- Language Table ---
+
+const JAVASCRIPT: LanguageSupport = {
+    lineComment: '//',
+    importStatements: [JS_IMPORT, JS_REQUIRE],
+    importedNames: jsImportedNames
+};
+
+const HASH_COMMENT: LanguageSupport = { lineComment: '#', importStatements: [] };
+
+const LANGUAGES: Record<string, LanguageSupport> = {
+    typescript: JAVASCRIPT,
+    typescriptreact: JAVASCRIPT,
+    javascript: JAVASCRIPT,
+    javascriptreact: JAVASCRIPT,
+    vue: JAVASCRIPT,
+    svelte: JAVASCRIPT,
+    python: {
+        lineComment: '#',
+        importStatements: [PYTHON_FROM_IMPORT, PYTHON_IMPORT],
+        importedNames: pythonImportedNames
+    },
+    go: {
+        lineComment: '//',
+        importStatements: [GO_IMPORT_BLOCK, GO_IMPORT] // Packages, not symbols: no names to look up
+    },
+    rust: {
+        lineComment: '//',
+        importStatements: [RUST_USE],
+        importedNames: rustImportedNames
+    },
+    java: {
+        lineComment: '//',
+        importStatements: [JAVA_IMPORT],
+        importedNames: javaImportedNames
+    },
+    csharp: {
+        lineComment: '//',
+        importStatements: [CSHARP_USING] // Namespaces, not symbols: no names to look up
+    },
+    shellscript: HASH_COMMENT,
+    ruby: HASH_COMMENT,
+    perl: HASH_COMMENT,
+    r: HASH_COMMENT,
+    yaml: HASH_COMMENT,
+    toml: HASH_COMMENT,
+    dockerfile: HASH_COMMENT,
+    makefile: HASH_COMMENT,
+    powershell: HASH_COMMENT,
+    sql: { lineComment: '--', importStatements: [] },
+    lua: { lineComment: '--', importStatements: [] },
+    haskell: { lineComment: '--', importStatements: [] },
+    html: { blockComment: ['<!--', '-->'], importStatements: [] },
+    xml: { blockComment: ['<!--', '-->'], importStatements: [] },
+    markdown: { blockComment: ['<!--', '-->'], importStatements: [] },
+    css: { blockComment: ['/*', '*/'], importStatements: [] }
+};
+
+// C-family comments and no import extraction for everything else
+const DEFAULT_LANGUAGE: LanguageSupport = { lineComment: '//', importStatements: [] };
+
+function supportFor(languageId: string): LanguageSupport {
+    return LANGUAGES[languageId] ?? DEFAULT_LANGUAGE;
+}
+
+// --- Public Helpers ---
+
+export function lineCommentFor(languageId: string): string | undefined {
+    return supportFor(languageId).lineComment;
+}
+
+// Wraps the text in the language's comment syntax ("# text", "// text", "<!-- text -->")
+export function toComment(languageId: string, text: string): string {
+    const support = supportFor(languageId);
+    if (support.lineComment) {
+        return `${support.lineComment} ${text}`;
+    }
+    const [open, close] = support.blockComment ?? ['/*', '*/'];
+    return `${open} ${text} ${close}`;
+}
+
+/**
+ * Finds the import statements of a file for its language: JS/TS `import` and `require`,
+ * Python `import`/`from`, Go import blocks, Rust `use`, Java imports and C# usings.
+ */
+export function extractImportStatements(text: string, languageId: string): ImportStatement[] {
+    const support = supportFor(languageId);
+    const statements: ImportStatement[] = [];
+
+    for (const regex of support.importStatements) {
+        for (const match of text.matchAll(regex)) {
+            const start = match.index ?? 0;
+            statements.push({
+                text: match[0].trim(),
+                start,
+                names: support.importedNames?.(match[0], start) ?? []
+            });
+        }
+    }
+    return statements.sort((a, b) => a.start - b.start);
+}
+
+// --- Indentation Scope (fallback without a DocumentSymbol provider) ---
+
+function indentationOf(line: string): number {
+    return line.match(/^[ \t]*/)![0].replace(/\t/g, '    ').length;
+}
+
+/**
+ * The block around `cursorLine` judged by indentation only: from the closest less-indented line above
+ * that opens a block (ends with ":" or "{", or starts with def/class/func/fn/...) down to the last line
+ * before the indentation drops back to that level. Used when the language has no symbol provider.
+ * Returns the first and last line of the block, or undefined at the top level.
+ */
+export function findIndentationScope(lines: string[], cursorLine: number): { start: number; end: number } | undefined {
+    const isBlank = (index: number) => lines[index].trim().length === 0;
+
+    // The indentation of the cursor line, or of the closest non-blank line above
+    let reference = cursorLine;
+    while (reference > 0 && isBlank(reference)) {
+        reference--;
+    }
+    const cursorIndent = isBlank(reference) ? 0 : indentationOf(lines[reference]);
+
+    let start = -1;
+    for (let index = reference; index >= 0; index--) {
+        if (isBlank(index)) {
+            continue;
+        }
+        const indent = indentationOf(lines[index]);
+        const opensBlock = /[:{]\s*$/.test(lines[index]) ||
+            /^\s*(?:async\s+)?(?:def|class|func|fn|function|impl|fun)\b/.test(lines[index]);
+        if (indent < cursorIndent && opensBlock || index === reference && opensBlock && index < cursorLine) {
+            start = index;
+            break;
+        }
+    }
+    if (start === -1) {
+        return undefined;
+    }
+
+    // Down to the last line that is still indented deeper than the block header (blank lines included)
+    const headerIndent = indentationOf(lines[start]);
+    let end = start;
+    for (let index = start + 1; index < lines.length; index++) {
+        if (isBlank(index)) {
+            continue;
+        }
+        if (indentationOf(lines[index]) <= headerIndent) {
+            // A closing "}" / "end" at the header's level still belongs to the block
+            if (/^\s*(?:[}\])]|end\b)/.test(lines[index])) {
+                end = index;
+            }
+            break;
+        }
+        end = index;
+    }
+    return { start, end: Math.max(end, cursorLine) };
+}
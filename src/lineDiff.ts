@@ -0,0 +1,66 @@
+// --- Line Diff ---
+
+// A run of changed lines: `removed` (starting at line `start` of the original) became `added`.
+// Lines keep their line breaks, so joining them gives back the text.
+export interface Hunk {
+  start: number;
+  removed: string[];
+  added: string[];
+}
+
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+/g) ?? [];
+}
+
+/**
+ * The hunks that turn `original` into `rewritten`, from a longest common subsequence of their lines.
+ * Selections are small, so the quadratic table is fine.
+ */
+export function diffLines(original: string, rewritten: string): Hunk[] {
+  const before = splitLines(original);
+  const after = splitLines(rewritten);
+
+  // common[i][j]: length of the longest common subsequence of before[i..] and after[j..]
+  const common = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      common[i][j] = before[i] === after[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const hunks: Hunk[] = [];
+  let current: Hunk | undefined;
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      current = undefined;
+      i++;
+      j++;
+      continue;
+    }
+    if (!current) {
+      current = { start: i, removed: [], added: [] };
+      hunks.push(current);
+    }
+    if (j < after.length && (i === before.length || common[i][j + 1] >= common[i + 1][j])) {
+      current.added.push(after[j++]);
+    } else {
+      current.removed.push(before[i++]);
+    }
+  }
+  return hunks;
+}
+
+// `original` with only the given hunks (from `diffLines(original, ...)`) applied
+export function applyHunks(original: string, hunks: Hunk[]): string {
+  const lines = splitLines(original);
+  const result: string[] = [];
+  let line = 0;
+  for (const hunk of [...hunks].sort((a, b) => a.start - b.start)) {
+    result.push(...lines.slice(line, hunk.start), ...hunk.added);
+    line = hunk.start + hunk.removed.length;
+  }
+  result.push(...lines.slice(line));
+  return result.join('');
+}
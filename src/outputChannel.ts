@@ -0,0 +1,39 @@
+import * as vscode from 'vscode';
+
+// --- "Code Suggestions" Output Channel ---
+
+// A log channel: each line has a timestamp and level, the level is set with "Developer: Set Log Level..."
+let channel: vscode.LogOutputChannel | undefined;
+
+export function registerOutputChannel(context: vscode.ExtensionContext): void {
+  channel = vscode.window.createOutputChannel("Code Suggestions", { log: true });
+  context.subscriptions.push(
+    channel,
+    vscode.commands.registerCommand('codeSuggestions.showOutput', () => channel?.show(true))
+  );
+}
+
+// Errors are logged with their message (and stack at debug level) rather than as "[object Object]"
+function format(args: unknown[]): string {
+  return args.map(arg => {
+    if (arg instanceof Error) {
+      return channel?.logLevel === vscode.LogLevel.Trace || channel?.logLevel === vscode.LogLevel.Debug
+        ? arg.stack ?? arg.message
+        : arg.message;
+    }
+    return typeof arg === "string" ? arg : JSON.stringify(arg);
+  }).join(" ");
+}
+
+/**
+ * Logs to the output channel, or to the console before it exists (e.g. in tests).
+ * trace: full prompts and responses, debug: request details, info: requests and state changes,
+ * warn: problems the user may need to act on, error: failed requests.
+ */
+export const log = {
+  trace: (...args: unknown[]) => channel ? channel.trace(format(args)) : console.debug(...args),
+  debug: (...args: unknown[]) => channel ? channel.debug(format(args)) : console.debug(...args),
+  info: (...args: unknown[]) => channel ? channel.info(format(args)) : console.log(...args),
+  warn: (...args: unknown[]) => channel ? channel.warn(format(args)) : console.warn(...args),
+  error: (...args: unknown[]) => channel ? channel.error(format(args)) : console.error(...args)
+};
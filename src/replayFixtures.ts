@@ -0,0 +1,188 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SuggestionEdit } from './suggestionEdit';
+
+// --- Recorded Fixtures (shared by the extension's debug mode and the server's replay backend) ---
+
+// What replay can be told to do instead of answering
+export type InjectedFault = "timeout" | "error" | "busy";
+
+export const INJECTED_FAULTS: InjectedFault[] = ["timeout", "error", "busy"];
+
+/**
+ * One recorded `/complete` (or `/complete/stream`) exchange, stored as a JSON file.
+ * `rawOutputs` is what the model backend returned before any post-processing (e.g. Ollama's `response`),
+ * `response` what the server answered after it.
+ */
+export interface Fixture {
+  name: string;
+  recordedAt: string;
+  route: "/complete" | "/complete/stream";
+  request: { context_text: string; language_id?: string; prefix?: string; candidates?: number };
+  prompt: string;             // The templated FIM prompt sent to the backend
+  backend: { kind: string; model: string; template: string };
+  rawOutputs: string[];       // One per candidate
+  response: {
+    status: string;
+    text: string;
+    replace: number;
+    candidates: SuggestionEdit[];
+    model?: string;
+    template?: string;
+  };
+  latencyMs: number;          // How long the real backend took
+  fault?: InjectedFault;      // Hand-written fixtures can force a fault for their request
+}
+
+export interface ReplayOptions {
+  latencyMs: number;          // Added to every replayed answer
+  faults: Partial<Record<InjectedFault, number>>;  // Probability (0..1) of each fault per request
+  seed: number;               // Faults are drawn from a seeded generator, so a run can be repeated exactly
+}
+
+// --- Loading and Saving ---
+
+export function fixtureKey(text: string): string {
+  return createHash('sha1').update(text).digest('hex');
+}
+
+// Every `*.json` file in the folder, sorted by name so the order (and the fallback choice) never changes
+export function loadFixtures(dir: string): Fixture[] {
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => ({ name: path.basename(file, '.json'), ...JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8')) }));
+}
+
+// Writes the fixture as `<language>-<hash of the request>.json` and returns the file path
+export function saveFixture(dir: string, fixture: Omit<Fixture, 'name'>): string {
+  const name = `${fixture.request.language_id ?? 'text'}-${fixtureKey(fixture.request.context_text).substring(0, 12)}`;
+  const file = path.join(dir, `${name}.json`);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + '\n');
+  return file;
+}
+
+// --- Lookup ---
+
+/**
+ * Finds the fixture for a request: the one recorded for exactly this context (or prompt), then one recorded
+ * with the same cursor line, and otherwise a fixed pick by the context's hash, so unrecorded requests
+ * still get a realistic answer and the same request always gets the same one.
+ */
+export class FixtureStore {
+  private readonly byContext = new Map<string, Fixture>();
+  private readonly byPrompt = new Map<string, Fixture>();
+
+  constructor(readonly fixtures: Fixture[]) {
+    for (const fixture of fixtures) {
+      this.byContext.set(fixtureKey(fixture.request.context_text), fixture);
+      this.byPrompt.set(fixtureKey(fixture.prompt), fixture);
+    }
+  }
+
+  static fromDirectory(dir: string): FixtureStore {
+    return new FixtureStore(loadFixtures(dir));
+  }
+
+  // Only the fixture recorded for exactly this context (e.g. to apply its `fault`)
+  exact(contextText: string): Fixture | undefined {
+    return this.byContext.get(fixtureKey(contextText));
+  }
+
+  forRequest(contextText: string, prefix?: string): Fixture | undefined {
+    return this.exact(contextText)
+      ?? (prefix?.trim() ? this.fixtures.find(fixture => fixture.request.prefix === prefix) : undefined)
+      ?? this.fallback(fixtureKey(contextText));
+  }
+
+  forPrompt(prompt: string): Fixture | undefined {
+    const key = fixtureKey(prompt);
+    return this.byPrompt.get(key) ?? this.fallback(key);
+  }
+
+  private fallback(key: string): Fixture | undefined {
+    return this.fixtures.length > 0 ? this.fixtures[parseInt(key.substring(0, 8), 16) % this.fixtures.length] : undefined;
+  }
+}
+
+/**
+ * The fixture's candidates as an answer to `contextText`. A recorded `replace` counts characters of the recorded
+ * suffix, so it is only kept when the fixture was recorded for exactly this context; replayed anywhere else,
+ * the candidates only insert (the count would delete unrelated text after the cursor).
+ */
+export function replayedCandidates(fixture: Fixture, contextText: string): SuggestionEdit[] {
+  if (fixture.request.context_text === contextText) {
+    return fixture.response.candidates;
+  }
+  return fixture.response.candidates.map(candidate => ({ ...candidate, replace: 0 }));
+}
+
+// --- Fault Injection ---
+
+// "timeout:0.1,error:0.05,busy:0.05" (probabilities per request)
+export function parseFaultRates(spec: string): Partial<Record<InjectedFault, number>> {
+  const rates: Partial<Record<InjectedFault, number>> = {};
+  for (const entry of spec.split(',').filter(part => part.trim())) {
+    const [fault, rate] = entry.split(':').map(part => part.trim());
+    const probability = Number(rate);
+    if (!INJECTED_FAULTS.includes(fault as InjectedFault) || Number.isNaN(probability)) {
+      throw new Error(`Expected "<${INJECTED_FAULTS.join('|')}>:<probability>", got "${entry}"`);
+    }
+    rates[fault as InjectedFault] = probability;
+  }
+  return rates;
+}
+
+/**
+ * Returns a function that draws the fault for the next request (undefined for a normal answer).
+ * A fixture's own `fault` always wins; otherwise a seeded generator decides.
+ */
+export function createFaultPicker(options: Pick<ReplayOptions, 'faults' | 'seed'>): (fixture?: Fixture) => InjectedFault | undefined {
+  const random = seededRandom(options.seed);
+
+  return fixture => {
+    if (fixture?.fault) {
+      return fixture.fault;
+    }
+    let roll = random();
+    for (const fault of INJECTED_FAULTS) {
+      roll -= options.faults[fault] ?? 0;
+      if (roll < 0) {
+        return fault;
+      }
+    }
+    return undefined;
+  };
+}
+
+// A repeatable generator of numbers in [0, 1) (mulberry32), also used to sample the evaluation harness's masks
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Resolves after `ms`, or rejects with an AbortError as soon as the signal is aborted
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(signal.reason);
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,117 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { log } from './outputChannel';
+import { createFaultPicker, delay, FixtureStore, InjectedFault, parseFaultRates, replayedCandidates } from './replayFixtures';
+import { SuggestionEdit } from './suggestionEdit';
+
+// --- Debug Mode: Replayed Fixtures Instead of the Server ---
+
+// An injected timeout waits this long when nothing cancels the request
+const MAX_TIMEOUT_MS = 30_000;
+
+// The server's answer, as far as the extension reads it
+export interface ReplayedResponse {
+  status: "ok" | "busy" | "error" | "cancelled";
+  candidates: SuggestionEdit[];
+  model?: string;
+  template?: string;
+  error?: string;
+}
+
+let bundledFixturesDir: string | undefined;
+let loaded: { dir: string; store: FixtureStore } | undefined;
+let pickFault: ReturnType<typeof createFaultPicker> | undefined;
+
+export function registerReplay(context: vscode.ExtensionContext): void {
+  bundledFixturesDir = path.join(context.extensionPath, "fixtures");
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration("codeSuggestions.replay")) {
+        loaded = undefined;
+        pickFault = undefined;
+      }
+    })
+  );
+}
+
+// `codeSuggestions.replay.fixturesFolder` (relative to the first workspace folder), or the fixtures shipped with the extension
+function fixturesDir(): string {
+  const configured = vscode.workspace.getConfiguration("codeSuggestions").get<string>("replay.fixturesFolder", "").trim();
+  if (!configured) {
+    return bundledFixturesDir ?? "fixtures";
+  }
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+  return path.isAbsolute(configured) || !workspaceFolder ? configured : path.join(workspaceFolder.uri.fsPath, configured);
+}
+
+function fixtureStore(): FixtureStore {
+  const dir = fixturesDir();
+  if (loaded?.dir !== dir) {
+    try {
+      loaded = { dir, store: FixtureStore.fromDirectory(dir) };
+      log.info(`[DEBUG MODE] Loaded ${loaded.store.fixtures.length} replay fixture(s) from ${dir}`);
+    } catch (err) {
+      log.error(`[DEBUG MODE] Cannot load replay fixtures from ${dir}:`, err);
+      loaded = { dir, store: new FixtureStore([]) };
+    }
+  }
+  return loaded.store;
+}
+
+function injectedFault(contextText: string): InjectedFault | undefined {
+  if (!pickFault) {
+    const config = vscode.workspace.getConfiguration("codeSuggestions");
+    try {
+      pickFault = createFaultPicker({ faults: parseFaultRates(config.get("replay.faults", "")), seed: 1 });
+    } catch (err) {
+      log.error("[DEBUG MODE] Invalid codeSuggestions.replay.faults:", err);
+      pickFault = () => undefined;
+    }
+  }
+  return pickFault(fixtureStore().exact(contextText));
+}
+
+/**
+ * Answers like the server would, from the recorded fixtures: the fixture recorded for this context
+ * (or cursor line, or a fixed pick), after `codeSuggestions.replay.latencyMs`. Faults from
+ * `codeSuggestions.replay.faults` (or the fixture) answer busy, error, or never (until cancelled).
+ */
+export async function replayCompletion(
+  contextText: string,
+  prefix: string,
+  candidateCount: number,
+  signal?: AbortSignal
+): Promise<ReplayedResponse> {
+  const config = vscode.workspace.getConfiguration("codeSuggestions");
+  const fault = injectedFault(contextText);
+  const fixture = fixtureStore().forRequest(contextText, prefix);
+
+  try {
+    if (fault === "timeout") {
+      log.info("[DEBUG MODE] Injected timeout");
+      await delay(MAX_TIMEOUT_MS, signal);
+      return { status: "error", candidates: [], error: "Injected timeout (replay)." };
+    }
+    await delay(config.get("replay.latencyMs", 150), signal);
+  } catch {
+    return { status: "cancelled", candidates: [] };
+  }
+
+  if (fault === "busy") {
+    return { status: "busy", candidates: [] };
+  }
+  if (fault === "error") {
+    return { status: "error", candidates: [], error: "Injected failure (replay)." };
+  }
+  if (!fixture) {
+    return { status: "error", candidates: [], error: `No replay fixtures in ${fixturesDir()}` };
+  }
+
+  log.debug(`[DEBUG MODE] Replaying fixture ${fixture.name}`);
+  return {
+    status: "ok",
+    candidates: replayedCandidates(fixture, contextText).slice(0, candidateCount),
+    model: fixture.response.model ?? fixture.backend.model,
+    template: fixture.response.template ?? fixture.backend.template
+  };
+}
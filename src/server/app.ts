@@ -0,0 +1,85 @@
+import express = require("express");
+import { Request, Response } from "express";
+import { createAuthMiddleware } from "./auth";
+import { ServerConfig } from "./config";
+import { Logger, annotateRequest, requestLogging } from "./logger";
+import { createFaultInjection } from "./replay";
+import { CompletionService } from "./server-file";
+
+// -------------------------------------------------------------------
+// 🌍 Express App: completion and edit routes plus /health and /models (API keys: see auth.ts)
+// -------------------------------------------------------------------
+
+// Health and model lookups must not hang a probe while the backend is busy loading a model
+const BACKEND_PROBE_TIMEOUT_MS = 3000;
+
+/**
+ * The backend's models, or why it could not be reached.
+ * Used by /health (reachability) and /models (the list).
+ */
+async function probeBackend(service: CompletionService): Promise<{ models?: string[]; error?: string; latencyMs: number }> {
+    const start = Date.now();
+    try {
+        const models = await service.backend.listModels(AbortSignal.timeout(BACKEND_PROBE_TIMEOUT_MS));
+        return { models, latencyMs: Date.now() - start };
+    } catch (error) {
+        return { error: error instanceof Error ? error.message : String(error), latencyMs: Date.now() - start };
+    }
+}
+
+export function createApp(service: CompletionService, config: ServerConfig, logger: Logger): express.Express {
+    const app = express();
+    const startedAt = Date.now();
+
+    app.use(requestLogging(logger));
+    app.use(express.json({ limit: config.limits.maxBodySize }));
+
+    // Everything that reaches the model needs an API key; /health stays open for probes
+    const authenticate = createAuthMiddleware(config.auth, logger);
+
+    // 📼 Replay mode can answer with a timeout, an error or busy instead of the fixture
+    const injectFaults = service.fixtures && config.replay
+        ? createFaultInjection(service.fixtures, config.replay, logger)
+        : (_req: Request, _res: Response, next: () => void) => next();
+
+    app.post('/complete', authenticate, injectFaults, service.complete);
+    app.post('/complete/stream', authenticate, injectFaults, service.completeStream);
+    app.post('/edit', authenticate, service.edit);
+
+    /**
+     * GET /health: 200 when the backend answers, 503 otherwise.
+     * `modelAvailable` tells whether the configured model is among the ones the backend serves.
+     */
+    app.get('/health', async (_req: Request, res: Response) => {
+        const probe = await probeBackend(service);
+        const reachable = probe.models !== undefined;
+        annotateRequest(res, { backendReachable: reachable });
+
+        res.status(reachable ? 200 : 503).json({
+            status: reachable ? 'ok' : 'unavailable',
+            uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+            backend: {
+                kind: service.backend.kind,
+                url: config.backend.url,
+                model: service.backend.model,
+                reachable,
+                modelAvailable: probe.models?.includes(service.backend.model),
+                latencyMs: probe.latencyMs,
+                error: probe.error
+            },
+            template: service.template.name,
+            queue: service.queueStats()
+        });
+    });
+
+    // GET /models: what the backend serves, and which model this server generates with
+    app.get('/models', authenticate, async (_req: Request, res: Response) => {
+        const probe = await probeBackend(service);
+        if (!probe.models) {
+            return res.status(502).json({ status: 'error', error: `Backend unreachable: ${probe.error}` });
+        }
+        res.json({ status: 'ok', backend: service.backend.kind, model: service.backend.model, models: probe.models });
+    });
+
+    return app;
+}
@@ -0,0 +1,119 @@
+import { createHash } from "crypto";
+import { NextFunction, Request, Response } from "express";
+import { Logger, annotateRequest } from "./logger";
+
+// -------------------------------------------------------------------
+// 🔐 API Keys and Per-key Limits
+// -------------------------------------------------------------------
+
+// One user's key: either in plain text or as its SHA-256 hex digest (so the config file holds no secret)
+export interface ApiKeyEntry {
+    user: string;
+    key?: string;
+    keySha256?: string;
+    requestsPerMinute?: number;  // Overrides the default limits for this key
+    maxConcurrent?: number;
+}
+
+export interface AuthConfig {
+    keys: ApiKeyEntry[];         // No keys: authentication is off
+    requestsPerMinute: number;   // Default per-key limits
+    maxConcurrent: number;
+}
+
+interface KeyState {
+    entry: ApiKeyEntry;
+    requestsPerMinute: number;
+    maxConcurrent: number;
+    recentRequests: number[];    // Start times within the last minute
+    activeClients: Map<string, number>;  // Requests still running, by client (editor window)
+}
+
+const RATE_WINDOW_MS = 60_000;
+
+function sha256(text: string): string {
+    return createHash("sha256").update(text).digest("hex");
+}
+
+// The token of `Authorization: Bearer <key>`, or of `X-API-Key: <key>`
+function requestKey(req: Request): string | undefined {
+    const authorization = req.header('Authorization');
+    const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    return (bearer ?? req.header('X-API-Key'))?.trim() || undefined;
+}
+
+/**
+ * Express middleware for the routes that reach the model: checks the API key (401 when missing or unknown),
+ * then the key's requests per minute and concurrent clients (429 with `Retry-After`).
+ * A client that already has a request open is never refused for concurrency: the request queue supersedes its own
+ * stale request instead.
+ * Keys are compared by their SHA-256 digest. Does nothing when no keys are configured.
+ */
+export function createAuthMiddleware(config: AuthConfig, logger: Logger) {
+    const keys = new Map<string, KeyState>();
+    for (const entry of config.keys) {
+        const digest = entry.keySha256?.toLowerCase() ?? (entry.key ? sha256(entry.key) : undefined);
+        if (!digest) {
+            throw new Error(`API key entry for "${entry.user}" has neither "key" nor "keySha256"`);
+        }
+        keys.set(digest, {
+            entry,
+            requestsPerMinute: entry.requestsPerMinute ?? config.requestsPerMinute,
+            maxConcurrent: entry.maxConcurrent ?? config.maxConcurrent,
+            recentRequests: [],
+            activeClients: new Map()
+        });
+    }
+
+    if (keys.size === 0) {
+        logger.warn('authentication disabled: no API keys configured');
+        return (_req: Request, _res: Response, next: NextFunction) => next();
+    }
+
+    return (req: Request, res: Response, next: NextFunction) => {
+        // 1. Who is asking
+        const key = requestKey(req);
+        const state = key ? keys.get(sha256(key)) : undefined;
+        if (!state) {
+            annotateRequest(res, { auth: key ? 'unknown key' : 'missing key' });
+            res.setHeader('WWW-Authenticate', 'Bearer');
+            return res.status(401).json({ status: 'unauthorized', error: key ? "Unknown API key." : "API key missing." });
+        }
+        annotateRequest(res, { user: state.entry.user });
+        // The request queue keys clients by user, so nobody can supersede another user's generation
+        res.locals.user = state.entry.user;
+
+        // 2. Requests per minute (sliding window)
+        const now = Date.now();
+        state.recentRequests = state.recentRequests.filter(time => now - time < RATE_WINDOW_MS);
+        if (state.recentRequests.length >= state.requestsPerMinute) {
+            const retryAfterSeconds = Math.max(1, Math.ceil((state.recentRequests[0] + RATE_WINDOW_MS - now) / 1000));
+            return sendRateLimited(res, retryAfterSeconds, `Rate limit of ${state.requestsPerMinute} requests per minute reached.`);
+        }
+
+        // 3. Concurrent clients (e.g. several editor windows of the same user)
+        const clientId = req.header('X-Client-Id') ?? req.ip ?? 'unknown';
+        const open = state.activeClients.get(clientId) ?? 0;
+        if (open === 0 && state.activeClients.size >= state.maxConcurrent) {
+            return sendRateLimited(res, 1, `Limit of ${state.maxConcurrent} concurrent clients reached.`);
+        }
+
+        state.recentRequests.push(now);
+        state.activeClients.set(clientId, open + 1);
+        res.on('close', () => {
+            const remaining = state.activeClients.get(clientId)! - 1;
+            if (remaining > 0) {
+                state.activeClients.set(clientId, remaining);
+            } else {
+                state.activeClients.delete(clientId);
+            }
+        });
+        next();
+    };
+}
+
+function sendRateLimited(res: Response, retryAfterSeconds: number, error: string) {
+    annotateRequest(res, { rateLimited: true });
+    res.setHeader('Retry-After', String(retryAfterSeconds));
+    return res.status(429).json({ status: 'rate-limited', error, retryAfterSeconds });
+}
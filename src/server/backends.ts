@@ -0,0 +1,501 @@
+import * as fs from "fs";
+
+// -------------------------------------------------------------------
+// 🔌 Model Backend Adapters (Ollama, OpenAI-compatible, llama.cpp server)
+// -------------------------------------------------------------------
+
+export type BackendKind = 'ollama' | 'openai' | 'llamacpp';
+
+// --- ⚙️ Per-backend generation options ---
+
+export interface BackendOptions {
+    temperature: number;
+    numCtx: number;         // Context window in tokens (Ollama only, the others fix it at load time)
+    numPredict: number;     // Maximum number of tokens to generate
+    repeatPenalty: number;  // Multiplicative, 1 = none (Ollama and llama.cpp only, OpenAI has no equivalent)
+    stop: string[];         // Extra stop sequences, added to the ones the prompt needs
+}
+
+export interface BackendConfig {
+    kind: BackendKind;
+    url: string;            // Base URL of the backend, without the route
+    model: string;
+    apiKey?: string;        // Sent as a Bearer token (OpenAI-compatible servers)
+    useInfill?: boolean;    // llama.cpp: send raw prefix/suffix to /infill and let the server apply the FIM tokens
+    raw?: boolean;          // Ollama: bypass the model's own prompt template
+    options: BackendOptions;
+}
+
+// --- 💾 What the server asks a backend to complete ---
+
+export interface BackendPrompt {
+    prompt: string;         // The fully templated FIM prompt
+    prefix: string;         // Raw text before the cursor (for native infill endpoints)
+    suffix: string;         // Raw text after the cursor
+    stop: string[];         // Stop sequences required by the prompt template
+    raw: boolean;           // The prompt is complete, the backend must not apply a chat template
+    instruction?: boolean;  // An instruction (POST /edit) rather than fill-in-the-middle: no native infill endpoint
+}
+
+// One generated alternative, with the mean log-probability of its tokens when the backend reports them
+export interface Candidate {
+    text: string;
+    meanLogprob?: number;
+}
+
+export interface CompletionBackend {
+    readonly kind: BackendKind | 'replay';  // 'replay': recorded fixtures, see replay.ts
+    readonly model: string;
+    /** Generates the whole completion at once. */
+    generate(request: BackendPrompt, signal: AbortSignal): Promise<string>;
+    /** Yields the completion text chunk by chunk. Breaking out of the loop closes the upstream request. */
+    stream(request: BackendPrompt, signal: AbortSignal): AsyncIterable<string>;
+    /**
+     * Generates `count` alternatives (not deduplicated): in one request when the backend has an `n` parameter,
+     * otherwise as samples one after another at rising temperatures.
+     */
+    generateCandidates(request: BackendPrompt, count: number, signal: AbortSignal): Promise<Candidate[]>;
+    /** The models the backend serves (also tells whether it is reachable at all). */
+    listModels(signal: AbortSignal): Promise<string[]>;
+}
+
+// --- 🏭 Defaults ---
+
+const DEFAULT_URLS: Record<BackendKind, string> = {
+    ollama: "http://localhost:11434",
+    openai: "http://localhost:8000",
+    llamacpp: "http://localhost:8080"
+};
+
+const DEFAULT_MODEL = "dagbs/qwen2.5-coder-7b-instruct-abliterated:q4_k_l";
+
+// Extra samples are drawn at temperature + step, + 2 * step, ... (capped) to get different alternatives
+const CANDIDATE_TEMPERATURE_STEP = 0.3;
+const MAX_CANDIDATE_TEMPERATURE = 1.2;
+
+const DEFAULT_OPTIONS: BackendOptions = {
+    temperature: 0.2,
+    numCtx: 4096,
+    numPredict: 1000,
+    repeatPenalty: 1.15,
+    stop: []
+};
+
+// -------------------------------------------------------------------
+// 🧩 Configuration (config file and/or environment variables)
+// -------------------------------------------------------------------
+
+/**
+ * Reads the backend configuration. `base` (the "backend" section of the server config file) and a JSON file
+ * named by `BACKEND_CONFIG` are loaded first, then individual environment variables override them:
+ * `BACKEND_KIND`, `BACKEND_URL`, `BACKEND_MODEL`, `BACKEND_API_KEY`, `BACKEND_USE_INFILL`, `BACKEND_RAW`,
+ * `BACKEND_TEMPERATURE`, `BACKEND_NUM_CTX`, `BACKEND_NUM_PREDICT`, `BACKEND_REPEAT_PENALTY`,
+ * `BACKEND_STOP` (JSON array of strings).
+ */
+export function loadBackendConfig(env: NodeJS.ProcessEnv = process.env, base: Partial<BackendConfig> = {}): BackendConfig {
+    const backendFile: Partial<BackendConfig> = env.BACKEND_CONFIG
+        ? JSON.parse(fs.readFileSync(env.BACKEND_CONFIG, "utf-8"))
+        : {};
+    const fromFile: Partial<BackendConfig> = {
+        ...base,
+        ...backendFile,
+        options: { ...base.options, ...backendFile.options } as BackendOptions
+    };
+
+    const kind = (env.BACKEND_KIND ?? fromFile.kind ?? 'ollama') as BackendKind;
+    if (!(kind in DEFAULT_URLS)) {
+        throw new Error(`Unknown backend kind "${kind}", expected one of: ${Object.keys(DEFAULT_URLS).join(', ')}`);
+    }
+
+    const fileOptions: Partial<BackendOptions> = fromFile.options ?? {};
+    const options: BackendOptions = {
+        temperature: numberFromEnv(env.BACKEND_TEMPERATURE) ?? fileOptions.temperature ?? DEFAULT_OPTIONS.temperature,
+        numCtx: numberFromEnv(env.BACKEND_NUM_CTX) ?? fileOptions.numCtx ?? DEFAULT_OPTIONS.numCtx,
+        numPredict: numberFromEnv(env.BACKEND_NUM_PREDICT) ?? fileOptions.numPredict ?? DEFAULT_OPTIONS.numPredict,
+        repeatPenalty: numberFromEnv(env.BACKEND_REPEAT_PENALTY) ?? fileOptions.repeatPenalty ?? DEFAULT_OPTIONS.repeatPenalty,
+        stop: env.BACKEND_STOP ? JSON.parse(env.BACKEND_STOP) : fileOptions.stop ?? DEFAULT_OPTIONS.stop
+    };
+
+    return {
+        kind,
+        url: (env.BACKEND_URL ?? fromFile.url ?? DEFAULT_URLS[kind]).replace(/\/+$/, ''),
+        model: env.BACKEND_MODEL ?? fromFile.model ?? DEFAULT_MODEL,
+        apiKey: env.BACKEND_API_KEY ?? fromFile.apiKey,
+        useInfill: booleanFromEnv(env.BACKEND_USE_INFILL) ?? fromFile.useInfill ?? false,
+        raw: booleanFromEnv(env.BACKEND_RAW) ?? fromFile.raw ?? false,
+        options
+    };
+}
+
+export function numberFromEnv(value: string | undefined): number | undefined {
+    if (value === undefined || value.trim() === '') {
+        return undefined;
+    }
+    const parsed = Number(value);
+    if (Number.isNaN(parsed)) {
+        throw new Error(`Expected a number, got "${value}"`);
+    }
+    return parsed;
+}
+
+export function booleanFromEnv(value: string | undefined): boolean | undefined {
+    if (value === undefined || value.trim() === '') {
+        return undefined;
+    }
+    return value === 'true' || value === '1';
+}
+
+export function createBackend(config: BackendConfig): CompletionBackend {
+    switch (config.kind) {
+        case 'ollama':
+            return new OllamaBackend(config);
+        case 'openai':
+            return new OpenAICompatibleBackend(config);
+        case 'llamacpp':
+            return new LlamaCppBackend(config);
+    }
+}
+
+// -------------------------------------------------------------------
+// 🦙 Ollama: POST /api/generate (NDJSON stream)
+// -------------------------------------------------------------------
+
+export class OllamaBackend implements CompletionBackend {
+    readonly kind = 'ollama';
+    readonly model: string;
+
+    constructor(private readonly config: BackendConfig) {
+        this.model = config.model;
+    }
+
+    private body(request: BackendPrompt, stream: boolean, sampling: SamplingOverrides = {}) {
+        const { options } = this.config;
+        return {
+            model: this.config.model,
+            prompt: request.prompt,
+            raw: this.config.raw || request.raw,
+            stream,
+            logprobs: sampling.logprobs,
+            options: {
+                temperature: sampling.temperature ?? options.temperature,
+                num_ctx: options.numCtx,
+                repeat_penalty: options.repeatPenalty,
+                num_predict: options.numPredict,
+                stop: [...request.stop, ...options.stop],
+            },
+        };
+    }
+
+    async generate(request: BackendPrompt, signal: AbortSignal): Promise<string> {
+        const response = await postJson(`${this.config.url}/api/generate`, this.body(request, false), this.config, signal);
+        const data = await response.json() as { response?: string };
+        return data.response ?? "";
+    }
+
+    async generateCandidates(request: BackendPrompt, count: number, signal: AbortSignal): Promise<Candidate[]> {
+        return sampleAtRisingTemperatures(this.config.options.temperature, count, async temperature => {
+            const body = this.body(request, false, { temperature, logprobs: true });
+            const response = await postJson(`${this.config.url}/api/generate`, body, this.config, signal);
+            // Newer Ollama versions report `logprobs` per generated token
+            const data = await response.json() as { response?: string; logprobs?: { logprob: number }[] };
+            return { text: data.response ?? "", meanLogprob: meanOf(data.logprobs?.map(entry => entry.logprob)) };
+        });
+    }
+
+    async *stream(request: BackendPrompt, signal: AbortSignal): AsyncIterable<string> {
+        const response = await postJson(`${this.config.url}/api/generate`, this.body(request, true), this.config, signal);
+
+        for await (const line of readLines(response)) {
+            const chunk = JSON.parse(line) as { response?: string; done?: boolean };
+            if (chunk.response) {
+                yield chunk.response;
+            }
+            if (chunk.done) {
+                return;
+            }
+        }
+    }
+
+    async listModels(signal: AbortSignal): Promise<string[]> {
+        const response = await getJson(`${this.config.url}/api/tags`, this.config, signal);
+        const data = await response.json() as { models?: { name: string }[] };
+        return (data.models ?? []).map(model => model.name);
+    }
+}
+
+// -------------------------------------------------------------------
+// 🌐 OpenAI-compatible: POST /v1/completions (SSE stream)
+// -------------------------------------------------------------------
+
+export class OpenAICompatibleBackend implements CompletionBackend {
+    readonly kind = 'openai';
+    readonly model: string;
+
+    constructor(private readonly config: BackendConfig) {
+        this.model = config.model;
+    }
+
+    private body(request: BackendPrompt, stream: boolean, sampling: SamplingOverrides = {}) {
+        const { options } = this.config;
+        return {
+            model: this.config.model,
+            prompt: request.prompt,
+            stream,
+            n: sampling.n,
+            logprobs: sampling.logprobs ? 1 : undefined,
+            temperature: sampling.temperature ?? options.temperature,
+            max_tokens: options.numPredict,
+            // No repeat penalty: OpenAI's frequency_penalty is additive and per occurrence, not the
+            // multiplicative repeat_penalty of Ollama/llama.cpp, so there is no faithful mapping
+            stop: [...request.stop, ...options.stop],
+        };
+    }
+
+    async generate(request: BackendPrompt, signal: AbortSignal): Promise<string> {
+        const response = await postJson(`${this.config.url}/v1/completions`, this.body(request, false), this.config, signal);
+        const data = await response.json() as { choices?: { text?: string }[] };
+        return data.choices?.[0]?.text ?? "";
+    }
+
+    async generateCandidates(request: BackendPrompt, count: number, signal: AbortSignal): Promise<Candidate[]> {
+        // `n` samples the alternatives in one request; a temperature of 0 would make them all identical
+        const temperature = Math.max(this.config.options.temperature, CANDIDATE_TEMPERATURE_STEP);
+        const body = this.body(request, false, { n: count, logprobs: true, temperature });
+        const response = await postJson(`${this.config.url}/v1/completions`, body, this.config, signal);
+        const data = await response.json() as {
+            choices?: { text?: string; logprobs?: { token_logprobs?: (number | null)[] } }[]
+        };
+        return (data.choices ?? []).map(choice => ({
+            text: choice.text ?? "",
+            meanLogprob: meanOf(choice.logprobs?.token_logprobs?.filter((value): value is number => value !== null))
+        }));
+    }
+
+    async *stream(request: BackendPrompt, signal: AbortSignal): AsyncIterable<string> {
+        const response = await postJson(`${this.config.url}/v1/completions`, this.body(request, true), this.config, signal);
+
+        for await (const data of readServerSentEvents(response)) {
+            if (data === '[DONE]') {
+                return;
+            }
+            const chunk = JSON.parse(data) as { choices?: { text?: string }[] };
+            const text = chunk.choices?.[0]?.text;
+            if (text) {
+                yield text;
+            }
+        }
+    }
+
+    async listModels(signal: AbortSignal): Promise<string[]> {
+        return listOpenAIModels(this.config, signal);
+    }
+}
+
+// -------------------------------------------------------------------
+// 🦙 llama.cpp server: POST /completion or /infill (SSE stream)
+// -------------------------------------------------------------------
+
+export class LlamaCppBackend implements CompletionBackend {
+    readonly kind = 'llamacpp';
+    readonly model: string;
+
+    constructor(private readonly config: BackendConfig) {
+        this.model = config.model;
+    }
+
+    private useInfill(request: BackendPrompt): boolean {
+        return !!this.config.useInfill && !request.instruction;
+    }
+
+    private route(request: BackendPrompt): string {
+        return `${this.config.url}${this.useInfill(request) ? '/infill' : '/completion'}`;
+    }
+
+    private body(request: BackendPrompt, stream: boolean, sampling: SamplingOverrides = {}) {
+        const { options } = this.config;
+        const common = {
+            stream,
+            n_probs: sampling.logprobs ? 1 : undefined,
+            temperature: sampling.temperature ?? options.temperature,
+            n_predict: options.numPredict,
+            repeat_penalty: options.repeatPenalty,
+            stop: [...request.stop, ...options.stop],
+            cache_prompt: true,
+        };
+        // /infill builds the FIM prompt itself from the model's own tokens
+        return this.useInfill(request)
+            ? { ...common, input_prefix: request.prefix, input_suffix: request.suffix }
+            : { ...common, prompt: request.prompt };
+    }
+
+    async generate(request: BackendPrompt, signal: AbortSignal): Promise<string> {
+        const response = await postJson(this.route(request), this.body(request, false), this.config, signal);
+        const data = await response.json() as { content?: string };
+        return data.content ?? "";
+    }
+
+    async generateCandidates(request: BackendPrompt, count: number, signal: AbortSignal): Promise<Candidate[]> {
+        return sampleAtRisingTemperatures(this.config.options.temperature, count, async temperature => {
+            const body = this.body(request, false, { temperature, logprobs: true });
+            const response = await postJson(this.route(request), body, this.config, signal);
+            const data = await response.json() as { content?: string; completion_probabilities?: LlamaCppTokenProbability[] };
+            return {
+                text: data.content ?? "",
+                meanLogprob: meanOf(data.completion_probabilities?.map(tokenLogprob).filter((value): value is number => value !== undefined))
+            };
+        });
+    }
+
+    async *stream(request: BackendPrompt, signal: AbortSignal): AsyncIterable<string> {
+        const response = await postJson(this.route(request), this.body(request, true), this.config, signal);
+
+        for await (const data of readServerSentEvents(response)) {
+            const chunk = JSON.parse(data) as { content?: string; stop?: boolean };
+            if (chunk.content) {
+                yield chunk.content;
+            }
+            if (chunk.stop) {
+                return;
+            }
+        }
+    }
+
+    async listModels(signal: AbortSignal): Promise<string[]> {
+        // The llama.cpp server serves the one model it was started with, under the OpenAI-compatible route
+        return listOpenAIModels(this.config, signal);
+    }
+}
+
+// GET /v1/models: `{ data: [{ id }] }`
+async function listOpenAIModels(config: BackendConfig, signal: AbortSignal): Promise<string[]> {
+    const response = await getJson(`${config.url}/v1/models`, config, signal);
+    const data = await response.json() as { data?: { id: string }[] };
+    return (data.data ?? []).map(model => model.id);
+}
+
+// Newer llama.cpp servers report `logprob`, older ones the probabilities of the top tokens
+interface LlamaCppTokenProbability {
+    content?: string;
+    logprob?: number;
+    probs?: { tok_str: string; prob: number }[];
+}
+
+function tokenLogprob(entry: LlamaCppTokenProbability): number | undefined {
+    if (typeof entry.logprob === 'number') {
+        return entry.logprob;
+    }
+    const chosen = entry.probs?.find(candidate => candidate.tok_str === entry.content);
+    return chosen && chosen.prob > 0 ? Math.log(chosen.prob) : undefined;
+}
+
+// -------------------------------------------------------------------
+// 🎲 Candidate Sampling
+// -------------------------------------------------------------------
+
+// Per-request changes to the configured generation options
+interface SamplingOverrides {
+    temperature?: number;
+    logprobs?: boolean;     // Ask for token log-probabilities (to rank candidates)
+    n?: number;             // Number of choices (OpenAI-compatible only)
+}
+
+/**
+ * Samples `count` times, one request after another (the model serves one generation at a time anyway):
+ * the first at the configured temperature, each next one a step warmer.
+ */
+async function sampleAtRisingTemperatures(
+    baseTemperature: number,
+    count: number,
+    sample: (temperature: number) => Promise<Candidate>
+): Promise<Candidate[]> {
+    const candidates: Candidate[] = [];
+    for (let i = 0; i < count; i++) {
+        const temperature = Math.min(baseTemperature + i * CANDIDATE_TEMPERATURE_STEP, MAX_CANDIDATE_TEMPERATURE);
+        candidates.push(await sample(temperature));
+    }
+    return candidates;
+}
+
+function meanOf(values: number[] | undefined): number | undefined {
+    if (!values || values.length === 0) {
+        return undefined;
+    }
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// -------------------------------------------------------------------
+// 📡 HTTP Helpers
+// -------------------------------------------------------------------
+
+function authHeaders(config: BackendConfig): Record<string, string> {
+    return config.apiKey ? { "Authorization": `Bearer ${config.apiKey}` } : {};
+}
+
+async function postJson(url: string, body: unknown, config: BackendConfig, signal: AbortSignal): Promise<Response> {
+    const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders(config) },
+        body: JSON.stringify(body),
+        signal
+    });
+
+    if (!response.ok) {
+        throw new Error(`${config.kind} API request failed: HTTP ${response.status}`);
+    }
+    return response;
+}
+
+async function getJson(url: string, config: BackendConfig, signal: AbortSignal): Promise<Response> {
+    const response = await fetch(url, { headers: authHeaders(config), signal });
+
+    if (!response.ok) {
+        throw new Error(`${config.kind} API request failed: HTTP ${response.status}`);
+    }
+    return response;
+}
+
+/**
+ * Yields the non-empty lines of a streamed response body.
+ * Stopping the iteration cancels the body, which closes the upstream connection.
+ */
+async function* readLines(response: Response): AsyncIterable<string> {
+    if (!response.body) {
+        return;
+    }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+
+    try {
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) {
+                break;
+            }
+            buffered += decoder.decode(value, { stream: true });
+
+            const lines = buffered.split('\n');
+            buffered = lines.pop() ?? '';
+
+            for (const line of lines) {
+                if (line.trim()) {
+                    yield line.trimEnd();
+                }
+            }
+        }
+        if (buffered.trim()) {
+            yield buffered.trimEnd();
+        }
+    } finally {
+        reader.cancel().catch(() => { /* Already closed */ });
+    }
+}
+
+// Yields the `data:` payloads of a Server-Sent Events stream
+async function* readServerSentEvents(response: Response): AsyncIterable<string> {
+    for await (const line of readLines(response)) {
+        if (line.startsWith('data:')) {
+            yield line.substring('data:'.length).trim();
+        }
+    }
+}
@@ -0,0 +1,163 @@
+import { FILE_SEPARATOR, FileBlock } from "./templates";
+
+// -------------------------------------------------------------------
+// 📏 Token-aware Context Budgeting
+// -------------------------------------------------------------------
+
+// Average characters per token for source code when a template does not declare its own
+export const DEFAULT_CHARS_PER_TOKEN = 3.2;
+
+// Lines around the cursor that are kept before anything else
+const CURSOR_PREFIX_LINES = 6;
+const CURSOR_SUFFIX_LINES = 3;
+
+// While growing the enclosing scope, take this many prefix lines per suffix line
+const PREFIX_LINES_PER_SUFFIX_LINE = 2;
+
+// Lines that bring names into scope (JS/TS, Python, Go, Rust, Java/C#, C/C++)
+const IMPORT_LINE = /^\s*(import\b|from\s+\S+\s+import\b|export\s+.*\s+from\s|(const|let|var)\s+.*=\s*require\(|use\s|using\s|#include\b|package\s)/;
+
+export type TokenEstimator = (text: string) => number;
+
+/**
+ * A calibrated estimator: token count from the character count and the tokenizer's average
+ * characters per token. Runs of indentation compress well in code tokenizers, so they count once.
+ */
+export function createTokenEstimator(charsPerToken: number = DEFAULT_CHARS_PER_TOKEN): TokenEstimator {
+    return text => Math.ceil(text.replace(/[ \t]{2,}/g, ' ').length / charsPerToken);
+}
+
+export interface BudgetInput {
+    prefix: string;             // Active file text before the cursor
+    suffix: string;             // Active file text after the cursor
+    contextFiles: FileBlock[];  // Pinned files, in priority order
+    budgetTokens: number;       // Tokens available for all of the above
+    estimateTokens: TokenEstimator;
+}
+
+export interface BudgetResult {
+    prefix: string;
+    suffix: string;
+    contextFiles: FileBlock[];
+    usedTokens: number;
+}
+
+/**
+ * Fits the prompt content into the token budget, always on line boundaries, in priority order:
+ * 1. the lines adjacent to the cursor,
+ * 2. the enclosing scope (growing outward from the cursor, prefix favoured over suffix),
+ * 3. import lines of the active file,
+ * 4. pinned context files, in the order they were sent.
+ * The (partial) cursor line itself is always kept.
+ */
+export function fitToBudget(input: BudgetInput): BudgetResult {
+    const { estimateTokens } = input;
+    const prefixLines = input.prefix.split('\n');
+    const suffixLines = input.suffix.split('\n');
+    const isImport = prefixLines.map(line => IMPORT_LINE.test(line));
+
+    const keptPrefix = new Set<number>();
+    const keptSuffix = new Set<number>();
+    let remaining = input.budgetTokens;
+
+    const take = (kept: Set<number>, lines: string[], index: number): boolean => {
+        const cost = estimateTokens(lines[index] + '\n');
+        if (cost > remaining) {
+            return false;
+        }
+        kept.add(index);
+        remaining -= cost;
+        return true;
+    };
+
+    // 0. The cursor line (text before and after the cursor)
+    const cursorLine = prefixLines.length - 1;
+    keptPrefix.add(cursorLine);
+    keptSuffix.add(0);
+    remaining -= estimateTokens(prefixLines[cursorLine] + suffixLines[0]);
+
+    // 1 + 2. Grow outward from the cursor: first the adjacent lines, then the rest of the scope
+    let nextPrefix = cursorLine - 1;
+    let nextSuffix = 1;
+
+    const expand = (maxPrefix: number, maxSuffix: number) => {
+        let prefixTaken = 0;
+        let suffixTaken = 0;
+        let prefixBlocked = nextPrefix < 0 || maxPrefix === 0;
+        let suffixBlocked = nextSuffix >= suffixLines.length || maxSuffix === 0;
+
+        while (!prefixBlocked || !suffixBlocked) {
+            for (let i = 0; i < PREFIX_LINES_PER_SUFFIX_LINE && !prefixBlocked; i++) {
+                // Imports have their own (lower) priority
+                while (nextPrefix >= 0 && isImport[nextPrefix]) {
+                    nextPrefix--;
+                }
+                if (nextPrefix < 0 || prefixTaken >= maxPrefix || !take(keptPrefix, prefixLines, nextPrefix)) {
+                    prefixBlocked = true; // Snap to the line boundary: never take a part of a line
+                    break;
+                }
+                nextPrefix--;
+                prefixTaken++;
+            }
+
+            if (!suffixBlocked) {
+                if (nextSuffix >= suffixLines.length || suffixTaken >= maxSuffix || !take(keptSuffix, suffixLines, nextSuffix)) {
+                    suffixBlocked = true;
+                } else {
+                    nextSuffix++;
+                    suffixTaken++;
+                }
+            }
+        }
+    };
+
+    expand(CURSOR_PREFIX_LINES, CURSOR_SUFFIX_LINES);
+    expand(Infinity, Infinity);
+
+    // 3. Imports, in file order
+    for (let index = 0; index < cursorLine; index++) {
+        if (isImport[index] && !keptPrefix.has(index)) {
+            take(keptPrefix, prefixLines, index);
+        }
+    }
+
+    // 4. Pinned files, each cut at the last line that still fits
+    const contextFiles: FileBlock[] = [];
+    for (const file of input.contextFiles) {
+        const headerCost = estimateTokens(`${FILE_SEPARATOR}${file.path} ---\n`);
+        if (headerCost >= remaining) {
+            break;
+        }
+        remaining -= headerCost;
+
+        const lines = file.content.split('\n');
+        const kept: string[] = [];
+        for (const line of lines) {
+            const cost = estimateTokens(line + '\n');
+            if (cost > remaining) {
+                break;
+            }
+            kept.push(line);
+            remaining -= cost;
+        }
+
+        if (kept.length === 0) {
+            remaining += headerCost;
+            break;
+        }
+        contextFiles.push({ path: file.path, content: kept.join('\n') });
+        if (kept.length < lines.length) {
+            break; // Budget exhausted inside this file
+        }
+    }
+
+    const pick = (lines: string[], kept: Set<number>) =>
+        lines.filter((_line, index) => kept.has(index)).join('\n');
+
+    return {
+        prefix: pick(prefixLines, keptPrefix),
+        suffix: pick(suffixLines, keptSuffix),
+        contextFiles,
+        usedTokens: input.budgetTokens - remaining
+    };
+}
@@ -0,0 +1,215 @@
+import * as fs from "fs";
+import { parseFaultRates } from "../replayFixtures";
+import { ApiKeyEntry, AuthConfig } from "./auth";
+import { BackendConfig, loadBackendConfig, numberFromEnv } from "./backends";
+import { LOG_LEVELS, LogLevel } from "./logger";
+import { ReplayConfig } from "./replay";
+import { DEFAULT_TEMPLATE_NAME } from "./templates";
+
+// -------------------------------------------------------------------
+// ⚙️ Server Configuration (CLI flags > environment > config file > defaults)
+// -------------------------------------------------------------------
+
+export interface ServerLimits {
+    maxWaitingRequests: number;  // How many clients may wait while the model is busy
+    maxCandidates: number;       // The most alternatives one request may ask for
+    cacheSize: number;           // Finished suggestions kept by prompt (0 = off)
+    maxBodySize: string;         // Largest accepted request body ("1mb", see express.json)
+}
+
+// HTTPS: PEM files of the server certificate (with its chain) and private key
+export interface TlsConfig {
+    certFile: string;
+    keyFile: string;
+}
+
+export interface ServerConfig {
+    port: number;
+    host?: string;               // All interfaces when not set
+    tls?: TlsConfig;             // Plain HTTP when not set
+    auth: AuthConfig;
+    backend: BackendConfig;
+    template: string;
+    templatesFile?: string;
+    limits: ServerLimits;
+    logLevel: LogLevel;
+    shutdownTimeoutMs: number;   // How long running generations may finish after SIGINT/SIGTERM
+    replay?: ReplayConfig;       // Recorded fixtures instead of the backend (see replay.ts)
+    recordFixturesDir?: string;  // Every answered request is saved there as a fixture
+}
+
+// The JSON file named by `SERVER_CONFIG` (or `--config`): every field is optional
+type ServerConfigFile = Partial<Omit<ServerConfig, 'backend' | 'limits' | 'auth' | 'replay'>> & {
+    backend?: Partial<BackendConfig>;
+    limits?: Partial<ServerLimits>;
+    auth?: Partial<AuthConfig> & { keysFile?: string };
+    replay?: Partial<ReplayConfig>;
+};
+
+// --- 🏭 Defaults ---
+
+const DEFAULT_PORT = 3000;
+
+const DEFAULT_LIMITS: ServerLimits = {
+    maxWaitingRequests: 8,
+    maxCandidates: 5,
+    cacheSize: 0,
+    maxBodySize: "1mb"
+};
+
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 10_000;
+
+// Per API key: plenty for one person typing, not enough to starve everyone else of the GPU
+const DEFAULT_REQUESTS_PER_MINUTE = 60;
+const DEFAULT_MAX_CONCURRENT = 2;
+
+const DEFAULT_REPLAY_SEED = 1;
+
+// --- 🖥️ Command Line ---
+
+// Every flag sets the environment variable of the same setting, so both share one precedence path
+const CLI_FLAGS: Record<string, string> = {
+    '--config': 'SERVER_CONFIG',
+    '--port': 'PORT',
+    '--host': 'HOST',
+    '--tls-cert': 'TLS_CERT_FILE',
+    '--tls-key': 'TLS_KEY_FILE',
+    '--api-keys-file': 'API_KEYS_FILE',
+    '--backend': 'BACKEND_KIND',
+    '--backend-url': 'BACKEND_URL',
+    '--model': 'BACKEND_MODEL',
+    '--template': 'FIM_TEMPLATE',
+    '--templates-file': 'FIM_TEMPLATES_FILE',
+    '--cache-size': 'COMPLETION_CACHE_SIZE',
+    '--max-waiting': 'MAX_WAITING_REQUESTS',
+    '--log-level': 'LOG_LEVEL',
+    '--replay': 'REPLAY_FIXTURES',
+    '--replay-latency': 'REPLAY_LATENCY_MS',
+    '--replay-faults': 'REPLAY_FAULTS',
+    '--record': 'RECORD_FIXTURES'
+};
+
+export const USAGE = `Usage: node out/server/main.js [options]
+
+Options (each one overrides the environment variable in brackets):
+${Object.entries(CLI_FLAGS).map(([flag, name]) => `  ${`${flag} <value>`.padEnd(26)}[${name}]`).join('\n')}
+  --help                    Show this help
+
+Backend options (BACKEND_API_KEY, BACKEND_NUM_CTX, ...) are read from the environment,
+the config file's "backend" section or BACKEND_CONFIG, see README.md.`;
+
+/**
+ * Turns `--flag value` / `--flag=value` arguments into the environment variables they stand for.
+ * Throws on unknown flags and missing values.
+ */
+export function parseArgs(argv: string[]): NodeJS.ProcessEnv {
+    const env: NodeJS.ProcessEnv = {};
+
+    for (let i = 0; i < argv.length; i++) {
+        const [flag, inlineValue] = argv[i].split(/=(.*)/s, 2);
+        const name = CLI_FLAGS[flag];
+        if (!name) {
+            throw new Error(`Unknown option "${flag}"\n\n${USAGE}`);
+        }
+        const value = inlineValue ?? argv[++i];
+        if (value === undefined) {
+            throw new Error(`Option "${flag}" needs a value`);
+        }
+        env[name] = value;
+    }
+    return env;
+}
+
+// --- 🧩 Loading ---
+
+/**
+ * Builds the server configuration. A JSON config file named by `SERVER_CONFIG` is read first
+ * (`port`, `host`, `tls`, `auth`, `backend`, `template`, `templatesFile`, `limits`, `logLevel`, `shutdownTimeoutMs`,
+ * `replay`, `recordFixturesDir`), then environment variables override it: `PORT`, `HOST`, `TLS_CERT_FILE`,
+ * `TLS_KEY_FILE`, `API_KEYS_FILE`, `API_KEYS`, `RATE_LIMIT_PER_MINUTE`, `MAX_CONCURRENT_PER_KEY`, `FIM_TEMPLATE`,
+ * `FIM_TEMPLATES_FILE`, `COMPLETION_CACHE_SIZE`, `MAX_WAITING_REQUESTS`, `MAX_CANDIDATES`, `MAX_BODY_SIZE`, `LOG_LEVEL`,
+ * `SHUTDOWN_TIMEOUT_MS`, `REPLAY_FIXTURES`, `REPLAY_LATENCY_MS`, `REPLAY_FAULTS`, `REPLAY_SEED`, `RECORD_FIXTURES`
+ * and the `BACKEND_*` variables (see `loadBackendConfig`).
+ */
+export function loadServerConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+    const fromFile: ServerConfigFile = env.SERVER_CONFIG
+        ? JSON.parse(fs.readFileSync(env.SERVER_CONFIG, "utf-8"))
+        : {};
+
+    const fileLimits = fromFile.limits ?? {};
+    const limits: ServerLimits = {
+        maxWaitingRequests: numberFromEnv(env.MAX_WAITING_REQUESTS) ?? fileLimits.maxWaitingRequests ?? DEFAULT_LIMITS.maxWaitingRequests,
+        maxCandidates: numberFromEnv(env.MAX_CANDIDATES) ?? fileLimits.maxCandidates ?? DEFAULT_LIMITS.maxCandidates,
+        cacheSize: numberFromEnv(env.COMPLETION_CACHE_SIZE) ?? fileLimits.cacheSize ?? DEFAULT_LIMITS.cacheSize,
+        maxBodySize: env.MAX_BODY_SIZE || fileLimits.maxBodySize || DEFAULT_LIMITS.maxBodySize
+    };
+
+    const logLevel = (env.LOG_LEVEL || fromFile.logLevel || 'info') as LogLevel;
+    if (!LOG_LEVELS.includes(logLevel)) {
+        throw new Error(`Unknown log level "${logLevel}", expected one of: ${LOG_LEVELS.join(', ')}`);
+    }
+
+    const certFile = env.TLS_CERT_FILE || fromFile.tls?.certFile;
+    const keyFile = env.TLS_KEY_FILE || fromFile.tls?.keyFile;
+    if (!certFile !== !keyFile) {
+        throw new Error('HTTPS needs both a certificate and a key file (TLS_CERT_FILE and TLS_KEY_FILE)');
+    }
+
+    return {
+        port: numberFromEnv(env.PORT) ?? fromFile.port ?? DEFAULT_PORT,
+        host: env.HOST || fromFile.host,
+        tls: certFile && keyFile ? { certFile, keyFile } : undefined,
+        auth: loadAuthConfig(env, fromFile.auth ?? {}),
+        backend: loadBackendConfig(env, fromFile.backend),
+        template: env.FIM_TEMPLATE || fromFile.template || DEFAULT_TEMPLATE_NAME,
+        templatesFile: env.FIM_TEMPLATES_FILE || fromFile.templatesFile,
+        limits,
+        logLevel,
+        shutdownTimeoutMs: numberFromEnv(env.SHUTDOWN_TIMEOUT_MS) ?? fromFile.shutdownTimeoutMs ?? DEFAULT_SHUTDOWN_TIMEOUT_MS,
+        replay: loadReplayConfig(env, fromFile.replay ?? {}),
+        recordFixturesDir: env.RECORD_FIXTURES || fromFile.recordFixturesDir
+    };
+}
+
+/**
+ * Replay mode, on when a fixtures folder is given (`REPLAY_FIXTURES` or `replay.fixturesDir`):
+ * `REPLAY_LATENCY_MS` delays every answer, `REPLAY_FAULTS` ("timeout:0.1,error:0.05,busy:0.05") injects faults
+ * drawn from a generator seeded with `REPLAY_SEED`.
+ */
+function loadReplayConfig(env: NodeJS.ProcessEnv, fromFile: Partial<ReplayConfig>): ReplayConfig | undefined {
+    const fixturesDir = env.REPLAY_FIXTURES || fromFile.fixturesDir;
+    if (!fixturesDir) {
+        return undefined;
+    }
+    return {
+        fixturesDir,
+        latencyMs: numberFromEnv(env.REPLAY_LATENCY_MS) ?? fromFile.latencyMs ?? 0,
+        faults: env.REPLAY_FAULTS ? parseFaultRates(env.REPLAY_FAULTS) : fromFile.faults ?? {},
+        seed: numberFromEnv(env.REPLAY_SEED) ?? fromFile.seed ?? DEFAULT_REPLAY_SEED
+    };
+}
+
+/**
+ * API keys from the config file's `auth.keys`, the JSON file named by `API_KEYS_FILE` (or `auth.keysFile`,
+ * an array of `{ user, key | keySha256, requestsPerMinute?, maxConcurrent? }`) and `API_KEYS` ("user:key,user:key").
+ */
+function loadAuthConfig(env: NodeJS.ProcessEnv, fromFile: NonNullable<ServerConfigFile['auth']>): AuthConfig {
+    const keysFile = env.API_KEYS_FILE || fromFile.keysFile;
+    const keys: ApiKeyEntry[] = [
+        ...fromFile.keys ?? [],
+        ...(keysFile ? JSON.parse(fs.readFileSync(keysFile, "utf-8")) as ApiKeyEntry[] : []),
+        ...(env.API_KEYS ?? '').split(',').filter(pair => pair.trim()).map(pair => {
+            const separator = pair.indexOf(':');
+            if (separator <= 0) {
+                throw new Error('API_KEYS expects "user:key" pairs separated by commas');
+            }
+            return { user: pair.substring(0, separator).trim(), key: pair.substring(separator + 1).trim() };
+        })
+    ];
+
+    return {
+        keys,
+        requestsPerMinute: numberFromEnv(env.RATE_LIMIT_PER_MINUTE) ?? fromFile.requestsPerMinute ?? DEFAULT_REQUESTS_PER_MINUTE,
+        maxConcurrent: numberFromEnv(env.MAX_CONCURRENT_PER_KEY) ?? fromFile.maxConcurrent ?? DEFAULT_MAX_CONCURRENT
+    };
+}
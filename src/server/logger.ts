@@ -0,0 +1,84 @@
+import { NextFunction, Request, Response } from "express";
+
+// -------------------------------------------------------------------
+// 📜 Structured Logging (one JSON object per line)
+// -------------------------------------------------------------------
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Writes `{"time", "level", "msg", ...fields}` lines for messages at or above `level`.
+ * Errors in the fields are written as `{ name, message }`.
+ */
+export function createLogger(level: LogLevel, write: (line: string) => void = line => process.stdout.write(line + "\n")): Logger {
+    const threshold = LOG_LEVELS.indexOf(level);
+
+    const log = (messageLevel: LogLevel) => (message: string, fields: LogFields = {}) => {
+        if (LOG_LEVELS.indexOf(messageLevel) < threshold) {
+            return;
+        }
+        write(JSON.stringify({ time: new Date().toISOString(), level: messageLevel, msg: message, ...fields }, serializeErrors));
+    };
+
+    return {
+        debug: log('debug'),
+        info: log('info'),
+        warn: log('warn'),
+        error: log('error')
+    };
+}
+
+function serializeErrors(_key: string, value: unknown): unknown {
+    return value instanceof Error ? { name: value.name, message: value.message } : value;
+}
+
+// -------------------------------------------------------------------
+// 🧾 Request Log
+// -------------------------------------------------------------------
+
+/**
+ * Adds fields to the request's log line (written when the response is finished),
+ * e.g. whether the cache was hit or how long the suggestion is.
+ */
+export function annotateRequest(res: Response, fields: LogFields): void {
+    res.locals.log = { ...res.locals.log, ...fields };
+}
+
+/**
+ * Express middleware: one "request" line per request with method, path, status, duration and client,
+ * plus whatever the route added with `annotateRequest`. Requests the client abandoned are logged as aborted.
+ */
+export function requestLogging(logger: Logger) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const start = Date.now();
+
+        res.on('close', () => {
+            const fields: LogFields = {
+                method: req.method,
+                path: req.path,
+                status: res.statusCode,
+                durationMs: Date.now() - start,
+                clientId: req.header('X-Client-Id') ?? req.ip,
+                ...(res.writableFinished ? {} : { aborted: true }),
+                ...res.locals.log
+            };
+            if (res.statusCode >= 500) {
+                logger.warn('request', fields);
+            } else {
+                logger.info('request', fields);
+            }
+        });
+        next();
+    };
+}
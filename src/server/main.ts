@@ -0,0 +1,91 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as http from "http";
+import * as https from "https";
+import { createApp } from "./app";
+import { USAGE, loadServerConfig, parseArgs } from "./config";
+import { createLogger } from "./logger";
+import { createCompletionService } from "./server-file";
+
+// -------------------------------------------------------------------
+// 🚀 Standalone Completion Server (npm run server -- --port 3000 ...)
+// -------------------------------------------------------------------
+
+function main(argv: string[]): void {
+    if (argv.includes('--help') || argv.includes('-h')) {
+        console.log(USAGE);
+        return;
+    }
+
+    // 1. Configuration: CLI flags override the environment, which overrides the config file
+    const config = loadServerConfig({ ...process.env, ...parseArgs(argv) });
+    const logger = createLogger(config.logLevel);
+
+    // 2. Routes
+    const service = createCompletionService(config, logger);
+    const app = createApp(service, config, logger);
+
+    // 3. Listen (on all interfaces unless a host is set), over HTTPS when a certificate is configured
+    const server = config.tls
+        ? https.createServer({ cert: fs.readFileSync(config.tls.certFile), key: fs.readFileSync(config.tls.keyFile) }, app)
+        : http.createServer(app);
+    server.once('error', error => {
+        logger.error('server failed', { error });
+        process.exit(1);
+    });
+    server.listen(config.port, config.host, () => {
+        logger.info('listening', {
+            port: config.port,
+            host: config.host ?? '*',
+            https: !!config.tls,
+            apiKeys: config.auth.keys.length,
+            backend: service.backend.kind,
+            backendUrl: config.replay ? undefined : config.backend.url,
+            model: service.backend.model,
+            template: config.template,
+            replayFixtures: service.fixtures?.fixtures.length,
+            recordingTo: config.recordFixturesDir
+        });
+    });
+
+    // 4. Graceful shutdown
+    let stopping = false;
+    const stop = (signal: NodeJS.Signals) => {
+        if (stopping) {
+            logger.warn('forced exit', { signal });
+            process.exit(1);
+        }
+        stopping = true;
+        shutdown(server, signal);
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+
+    /**
+     * Stops accepting connections and new requests, lets the queued and running generations finish,
+     * and aborts whatever is still running after `shutdownTimeoutMs`. A second signal exits right away.
+     */
+    function shutdown(server: http.Server | https.Server, signal: NodeJS.Signals): void {
+        logger.info('shutting down', { signal, queue: service.queueStats(), timeoutMs: config.shutdownTimeoutMs });
+        service.close();
+
+        server.close(() => {
+            logger.info('stopped');
+            process.exit(0);
+        });
+        server.closeIdleConnections();
+
+        setTimeout(() => {
+            logger.warn('shutdown timeout, aborting generations', { queue: service.queueStats() });
+            service.abortAll();
+            server.closeAllConnections();
+        }, config.shutdownTimeoutMs).unref();
+    }
+}
+
+try {
+    main(process.argv.slice(2));
+} catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+}
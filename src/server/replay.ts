@@ -0,0 +1,154 @@
+import { NextFunction, Request, Response } from "express";
+import { delay, Fixture, FixtureStore, createFaultPicker, ReplayOptions, saveFixture } from "../replayFixtures";
+import { BackendPrompt, Candidate, CompletionBackend } from "./backends";
+import { Logger, annotateRequest } from "./logger";
+
+// -------------------------------------------------------------------
+// 📼 Record / Replay: fixtures instead of a running model (see replayFixtures.ts)
+// -------------------------------------------------------------------
+
+export interface ReplayConfig extends ReplayOptions {
+    fixturesDir: string;
+}
+
+/**
+ * Serves the raw model outputs of recorded fixtures, looked up by the templated prompt. Everything after
+ * the backend (post-processing, suffix merging, ranking) runs as usual, so replay exercises the real code.
+ */
+export class ReplayBackend implements CompletionBackend {
+    readonly kind = 'replay';
+    readonly model: string;
+
+    constructor(private readonly store: FixtureStore, private readonly options: ReplayOptions) {
+        this.model = store.fixtures[0]?.backend.model ?? 'replay';
+    }
+
+    private async rawOutputs(request: BackendPrompt, signal: AbortSignal): Promise<string[]> {
+        const fixture = this.store.forPrompt(request.prompt);
+        if (!fixture) {
+            throw new Error('replay: no fixtures loaded');
+        }
+        await delay(this.options.latencyMs, signal);
+        return fixture.rawOutputs;
+    }
+
+    async generate(request: BackendPrompt, signal: AbortSignal): Promise<string> {
+        return (await this.rawOutputs(request, signal))[0] ?? "";
+    }
+
+    // Recorded candidates keep their order (no log-probabilities), repeated when fewer were recorded
+    async generateCandidates(request: BackendPrompt, count: number, signal: AbortSignal): Promise<Candidate[]> {
+        const outputs = await this.rawOutputs(request, signal);
+        return Array.from({ length: count }, (_, index) => ({ text: outputs[index % outputs.length] ?? "" }));
+    }
+
+    // Word by word, like a model would stream it
+    async *stream(request: BackendPrompt, signal: AbortSignal): AsyncIterable<string> {
+        const [output = ""] = await this.rawOutputs(request, signal);
+        for (const chunk of output.match(/\s*\S+|\s+/g) ?? []) {
+            if (signal.aborted) {
+                return;
+            }
+            yield chunk;
+        }
+    }
+
+    async listModels(): Promise<string[]> {
+        return Array.from(new Set(this.store.fixtures.map(fixture => fixture.backend.model)));
+    }
+}
+
+/**
+ * Middleware for the completion routes in replay mode: answers instead of the model with the fault the fixture
+ * (or the seeded fault rates) asks for. `timeout` never answers, `error` is a 500 and `busy` a 503.
+ */
+export function createFaultInjection(store: FixtureStore, options: ReplayOptions, logger: Logger) {
+    const pickFault = createFaultPicker(options);
+
+    return (req: Request, res: Response, next: NextFunction) => {
+        const fault = pickFault(store.exact(req.body?.context_text ?? ''));
+        if (!fault) {
+            return next();
+        }
+        annotateRequest(res, { injectedFault: fault });
+        logger.debug('injected fault', { fault });
+
+        switch (fault) {
+            case 'timeout':
+                return; // The client gives up (or the connection is closed at shutdown)
+            case 'error':
+                return res.status(500).json({ status: 'error', error: "Injected failure (replay)." });
+            case 'busy':
+                res.setHeader('Retry-After', '1');
+                return res.status(503).json({ status: 'busy' });
+        }
+    };
+}
+
+// -------------------------------------------------------------------
+// 🎙️ Recorder: saves real exchanges as fixtures
+// -------------------------------------------------------------------
+
+/**
+ * Wraps the real backend to remember its raw outputs per prompt, and writes one fixture per answered
+ * request (`recordFixturesDir` / `RECORD_FIXTURES`). A later run with the same context overwrites it.
+ * Only completions are recorded: instruction prompts (POST /edit) pass through. Requests that end without
+ * a fixture (failed, superseded, cancelled) must be `forget`-ten, or their outputs stay in memory.
+ */
+export class FixtureRecorder {
+    private readonly rawOutputs = new Map<string, string[]>();
+
+    constructor(private readonly dir: string, private readonly logger: Logger) {}
+
+    wrap(backend: CompletionBackend): CompletionBackend {
+        const remember = (prompt: string, outputs: string[]) => this.rawOutputs.set(prompt, outputs);
+        return {
+            kind: backend.kind,
+            model: backend.model,
+            listModels: signal => backend.listModels(signal),
+            async generate(request, signal) {
+                const output = await backend.generate(request, signal);
+                if (!request.instruction) {
+                    remember(request.prompt, [output]);
+                }
+                return output;
+            },
+            async generateCandidates(request, count, signal) {
+                const candidates = await backend.generateCandidates(request, count, signal);
+                remember(request.prompt, candidates.map(candidate => candidate.text));
+                return candidates;
+            },
+            async *stream(request, signal) {
+                let output = '';
+                try {
+                    for await (const chunk of backend.stream(request, signal)) {
+                        output += chunk;
+                        yield chunk;
+                    }
+                } finally {
+                    // Also when the server stopped the stream early: that is all the model produced
+                    remember(request.prompt, [output]);
+                }
+            }
+        };
+    }
+
+    // Drops the outputs of a request that ends without a fixture (called once every request is done)
+    forget(prompt: string): void {
+        this.rawOutputs.delete(prompt);
+    }
+
+    record(fixture: Omit<Fixture, 'name' | 'recordedAt' | 'rawOutputs'>): void {
+        const rawOutputs = this.rawOutputs.get(fixture.prompt);
+        this.rawOutputs.delete(fixture.prompt);
+        if (!rawOutputs) {
+            return; // Served from the cache, nothing reached the model
+        }
+        try {
+            const file = saveFixture(this.dir, { ...fixture, recordedAt: new Date().toISOString(), rawOutputs });
+            this.logger.info('fixture recorded', { file });
+        } catch (error) {
+            this.logger.error('recording the fixture failed', { error });
+        }
+    }
+}
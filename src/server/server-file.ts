@@ -0,0 +1,902 @@
+import { createHash } from "crypto";
+import { Request, Response } from "express";
+import { LruCache } from "../lruCache";
+import { Fixture, FixtureStore } from "../replayFixtures";
+import { BackendPrompt, Candidate, CompletionBackend, createBackend } from "./backends";
+import { createTokenEstimator, fitToBudget } from "./budget";
+import { ServerConfig, loadServerConfig } from "./config";
+import { Logger, annotateRequest, createLogger } from "./logger";
+import { FixtureRecorder, ReplayBackend } from "./replay";
+import { findSuffixOverlap, mergeWithSuffix } from "./suffixMerge";
+import {
+    EditPromptParts, FILE_SEPARATOR, FileBlock, FimTemplate, PromptParts, SELECTION_END, SELECTION_START,
+    renderEditPrompt, renderPlainPrefix, renderPrompt, resolveTemplate, stopSequencesFor
+} from "./templates";
+
+// --- ⚙️ FIM Configuration Constants ---
+
+const CURSOR_MARKER = "<|CURSOR|>";
+
+// 📏 Context Budget: the estimate is not exact, keep some headroom
+const SAFETY_MARGIN = 0.05;
+
+/**
+ * Everything the routes share, built once from the server configuration (see config.ts):
+ * 🧩 the prompt template (templates.ts), 🔌 the model backend (backends.ts),
+ * 📏 the prompt budget in tokens (the context window minus the space reserved for generation),
+ * 🗄️ the completion cache (finished, ranked suggestions by prompt), 🚦 the request queue and
+ * 🎙️ the fixture recorder when exchanges are recorded (replay.ts).
+ */
+interface CompletionContext {
+    template: FimTemplate;
+    stopTokens: string[];
+    backend: CompletionBackend;
+    estimateTokens: (text: string) => number;
+    promptTokenBudget: number;
+    maxCandidates: number;
+    cache: LruCache<string, string[]>;
+    queue: CompletionQueue;
+    logger: Logger;
+    recorder?: FixtureRecorder;
+}
+
+export interface CompletionService {
+    readonly backend: CompletionBackend;
+    readonly template: FimTemplate;
+    /** The recorded fixtures in replay mode. */
+    readonly fixtures?: FixtureStore;
+    /** POST /complete */
+    complete(req: Request<{}, {}, CompletionRequest>, res: Response): Promise<unknown>;
+    /** POST /complete/stream */
+    completeStream(req: Request<{}, {}, CompletionRequest>, res: Response): Promise<unknown>;
+    /** POST /edit */
+    edit(req: Request<{}, {}, EditRequest>, res: Response): Promise<unknown>;
+    /** How many generations are running and waiting. */
+    queueStats(): { running: number; waiting: number };
+    /** Refuses new requests (503 busy), the queued and running ones still finish. */
+    close(): void;
+    /** Aborts the queued and running generations. */
+    abortAll(): void;
+}
+
+// --- 💾 Interface for Request Body ---
+
+export interface CompletionRequest {
+    context_text : string; 
+    language_id?: string;
+    prefix?: string;      
+    repo_name?: string;   // Workspace name, used by templates with a repo-level header
+    candidates?: number;  // How many alternatives to return (/complete only, default 1)
+}
+
+// POST /edit: rewrite `selection` as `instruction` says, seeing the code around it and the pinned files
+export interface EditRequest {
+    instruction: string;
+    selection: string;
+    prefix?: string;        // The enclosing symbol's text before the selection
+    suffix?: string;        // The enclosing symbol's text after the selection
+    path?: string;
+    language_id?: string;
+    context_text?: string;  // Pinned context files as "--- FILE: path ---" blocks
+    repo_name?: string;
+}
+
+// The prompt built from a request, plus the raw parts (suffix for overlap trimming, both for native infill backends)
+interface FimPrompt {
+    fimPrompt: string;
+    prefixContent: string;
+    suffixContent: string;
+}
+
+// -------------------------------------------------------------------
+// 🏭 Completion Service
+// -------------------------------------------------------------------
+
+/**
+ * Creates the completion routes for a server configuration. Nothing is read from the environment here,
+ * so several services (and tests) can run side by side; `main.ts` mounts one on an Express app.
+ */
+export function createCompletionService(config: ServerConfig, logger: Logger): CompletionService {
+    const template = resolveTemplate(config.template, config.templatesFile);
+    const { options } = config.backend;
+    // 📼 Replay serves recorded model outputs instead of the configured backend
+    const fixtures = config.replay ? FixtureStore.fromDirectory(config.replay.fixturesDir) : undefined;
+    const backend = fixtures && config.replay ? new ReplayBackend(fixtures, config.replay) : createBackend(config.backend);
+    const recorder = config.recordFixturesDir ? new FixtureRecorder(config.recordFixturesDir, logger) : undefined;
+    const context: CompletionContext = {
+        template,
+        stopTokens: stopSequencesFor(template),
+        backend: recorder ? recorder.wrap(backend) : backend,
+        estimateTokens: createTokenEstimator(template.charsPerToken),
+        promptTokenBudget: Math.floor((options.numCtx - options.numPredict) * (1 - SAFETY_MARGIN)),
+        maxCandidates: config.limits.maxCandidates,
+        cache: new LruCache<string, string[]>(config.limits.cacheSize),
+        queue: new CompletionQueue(config.limits.maxWaitingRequests),
+        logger,
+        recorder
+    };
+
+    return {
+        backend: context.backend,
+        template,
+        fixtures,
+        complete: (req, res) => handleComplete(context, req, res),
+        completeStream: (req, res) => handleCompleteStream(context, req, res),
+        edit: (req, res) => handleEdit(context, req, res),
+        queueStats: () => context.queue.stats(),
+        close: () => context.queue.close(),
+        abortAll: () => context.queue.abortAll()
+    };
+}
+
+// For apps that mount the routes themselves: one service configured from the environment on first use
+let defaultService: CompletionService | undefined;
+
+function getDefaultService(): CompletionService {
+    if (!defaultService) {
+        const config = loadServerConfig();
+        defaultService = createCompletionService(config, createLogger(config.logLevel));
+    }
+    return defaultService;
+}
+
+export const completeController = (req: Request<{}, {}, CompletionRequest>, res: Response) =>
+    getDefaultService().complete(req, res);
+
+export const completeStreamController = (req: Request<{}, {}, CompletionRequest>, res: Response) =>
+    getDefaultService().completeStream(req, res);
+
+export const editController = (req: Request<{}, {}, EditRequest>, res: Response) =>
+    getDefaultService().edit(req, res);
+
+// -------------------------------------------------------------------
+// 🌍 Express Controllers (API Routes)
+// -------------------------------------------------------------------
+
+async function handleComplete(context: CompletionContext, req: Request<{}, {}, CompletionRequest>, res: Response) {
+    const { cache, logger } = context;
+    const prompt = buildFimPrompt(context, req.body.context_text, req.body.repo_name);
+
+    if (!prompt) {
+        annotateRequest(res, { error: 'cursor marker missing' });
+        return res.status(400).json({ error: "Cursor marker missing." });
+    }
+    const { fimPrompt, suffixContent } = prompt;
+    const candidateCount = Math.min(Math.max(Math.floor(Number(req.body.candidates) || 1), 1), context.maxCandidates);
+    annotateRequest(res, { languageId: req.body.language_id, candidates: candidateCount });
+
+    // 3. Serve a repeated prompt from the cache, without queueing a generation
+    const cacheKey = createHash("sha1").update(`${context.backend.model}\0${candidateCount}\0${fimPrompt}`).digest("hex");
+    if (cache.maxEntries > 0) {
+        const cached = cache.get(cacheKey);
+        annotateRequest(res, { cache: cached !== undefined ? 'hit' : 'miss' });
+        logger.debug('cache', { hits: cache.hits, misses: cache.misses, entries: cache.size });
+        if (cached !== undefined) {
+            return res.json(completionResponse(context, cached, suffixContent));
+        }
+    }
+
+    const abortController = abortOnDisconnect(res);
+    const startedAt = Date.now();
+    
+    // 4. Call the AI Model (queued: one generation at a time, newest request per client wins)
+    try {
+        const rawCandidates = await context.queue.enqueue(
+            getClientId(req, res),
+            abortController,
+            async (signal): Promise<Candidate[]> => candidateCount > 1
+                ? callFimModelCandidatesAPI(context, prompt, candidateCount, signal)
+                : [{ text: await callFimModelAPI(context, prompt, signal) }]
+        );
+
+        // 5. Post-process and Send Response
+        // Pass the full original context_text_updated to the post-processor for better cleanup
+        const candidates = rankCandidates(
+            rawCandidates.map(candidate => ({
+                ...candidate,
+                text: postProcessSuggestion(candidate.text, suffixContent, fimPrompt, context.stopTokens)
+            }))
+        );
+        cache.set(cacheKey, candidates);
+        annotateRequest(res, { suggestionChars: candidates[0]?.length ?? 0 });
+        const response = completionResponse(context, candidates, suffixContent);
+        res.json(response);
+        recordExchange(context, '/complete', req.body, fimPrompt, response, Date.now() - startedAt);
+        
+    } catch (error) {
+        if (error instanceof QueueError) {
+            annotateRequest(res, { queue: error.status });
+            return sendQueueStatus(res, error);
+        }
+        logger.error('generation failed', { error });
+        res.status(500).json({ status: 'error', error: "Failed to generate AI suggestion." });
+    } finally {
+        context.recorder?.forget(fimPrompt);
+    }
+}
+
+/**
+ * The `/complete` response: every candidate as an edit (`insertText` replacing `replace` characters after
+ * the cursor, see suffixMerge.ts), best first. `text` is the best suggestion for clients that predate edits.
+ */
+function completionResponse(context: CompletionContext, candidates: string[], suffixContent: string) {
+    const edits = candidates.map(candidate => mergeWithSuffix(candidate, suffixContent));
+    return {
+        status: 'ok',
+        text: edits[0]?.insertText ?? '',
+        insertText: edits[0]?.insertText ?? '',
+        replace: edits[0]?.replace ?? 0,
+        candidates: edits,
+        model: context.backend.model,
+        template: context.template.name
+    };
+}
+
+// 🎙️ Saves the exchange as a fixture when recording is on (see replay.ts)
+function recordExchange(
+    context: CompletionContext,
+    route: Fixture['route'],
+    request: CompletionRequest,
+    prompt: string,
+    response: Fixture['response'],
+    latencyMs: number
+) {
+    context.recorder?.record({
+        route,
+        request: {
+            context_text: request.context_text,
+            language_id: request.language_id,
+            prefix: request.prefix,
+            candidates: request.candidates
+        },
+        prompt,
+        backend: { kind: context.backend.kind, model: context.backend.model, template: context.template.name },
+        response,
+        latencyMs
+    });
+}
+
+/**
+ * Streaming variant of `/complete` (mounted at `/complete/stream`).
+ * Responds with NDJSON: every line is `{ text, replace, done }` where `text` is the whole cleaned
+ * suggestion so far (not a delta), so the client can simply replace what it shows,
+ * and `replace` the number of characters after the cursor it replaces.
+ * Generation is stopped as soon as a stop token, suffix overlap or natural boundary is reached.
+ */
+async function handleCompleteStream(context: CompletionContext, req: Request<{}, {}, CompletionRequest>, res: Response) {
+    const { logger } = context;
+    const prompt = buildFimPrompt(context, req.body.context_text, req.body.repo_name);
+
+    if (!prompt) {
+        annotateRequest(res, { error: 'cursor marker missing' });
+        return res.status(400).json({ error: "Cursor marker missing." });
+    }
+    const { suffixContent } = prompt;
+    const abortController = abortOnDisconnect(res);
+    const startedAt = Date.now();
+    annotateRequest(res, { languageId: req.body.language_id, streamed: true });
+
+    let lastSent = '';
+    try {
+        await context.queue.enqueue(getClientId(req, res), abortController, async signal => {
+            // Headers are only sent once the job leaves the queue, so busy/superseded can still use status codes
+            res.setHeader("Content-Type", "application/x-ndjson");
+            res.setHeader("Cache-Control", "no-cache");
+            res.flushHeaders();
+
+            await streamFimModelAPI(context, prompt, signal, rawSoFar => {
+                const { text, complete } = processStreamedSuggestion(rawSoFar, suffixContent, context.stopTokens);
+                if (text !== lastSent) {
+                    const { insertText, replace } = mergeWithSuffix(text, suffixContent);
+                    res.write(JSON.stringify({ text: insertText, replace, done: false }) + "\n");
+                    lastSent = text;
+                }
+                return complete; // true stops the generation upstream
+            });
+        });
+        const { insertText, replace } = mergeWithSuffix(lastSent, suffixContent);
+        annotateRequest(res, { suggestionChars: insertText.length });
+        res.end(JSON.stringify({
+            status: 'ok', text: insertText, replace, done: true, model: context.backend.model, template: context.template.name
+        }) + "\n");
+        recordExchange(context, '/complete/stream', req.body, prompt.fimPrompt, {
+            status: 'ok', text: insertText, replace, candidates: [{ insertText, replace }],
+            model: context.backend.model, template: context.template.name
+        }, Date.now() - startedAt);
+
+    } catch (error) {
+        if (error instanceof QueueError) {
+            annotateRequest(res, { queue: error.status });
+        } else {
+            logger.error('streaming failed', { error });
+        }
+
+        if (!res.headersSent) {
+            if (error instanceof QueueError) {
+                return sendQueueStatus(res, error);
+            }
+            return res.status(500).json({ status: 'error', error: "Failed to generate AI suggestion." });
+        }
+
+        // Headers are already sent, so the outcome travels as the last NDJSON line
+        if (error instanceof QueueError) {
+            res.end(JSON.stringify({ status: error.status, done: true }) + "\n");
+        } else {
+            res.end(JSON.stringify({ status: 'error', error: "Failed to generate AI suggestion.", done: true }) + "\n");
+        }
+    } finally {
+        context.recorder?.forget(prompt.fimPrompt);
+    }
+}
+
+/**
+ * Rewrites the selection as the instruction says (mounted at `/edit`), with the chat template (see
+ * `renderEditPrompt`). Responds with `{ status, text }`, `text` being the code that replaces the selection.
+ * Edits queue in their own lane per client, so a suggestion requested meanwhile does not supersede them.
+ */
+async function handleEdit(context: CompletionContext, req: Request<{}, {}, EditRequest>, res: Response) {
+    const { logger } = context;
+    const { instruction, selection } = req.body ?? {};
+
+    if (typeof instruction !== 'string' || !instruction.trim() || typeof selection !== 'string' || !selection.trim()) {
+        annotateRequest(res, { error: 'instruction or selection missing' });
+        return res.status(400).json({ error: "Instruction and selection are required." });
+    }
+    const prompt = buildEditPrompt(context, req.body);
+    if (!prompt) {
+        annotateRequest(res, { error: 'selection too large' });
+        return res.status(413).json({ status: 'error', error: "The selection does not fit into the model's context window." });
+    }
+    annotateRequest(res, { languageId: req.body.language_id, edit: true });
+    const abortController = abortOnDisconnect(res);
+
+    try {
+        const rawText = await context.queue.enqueue(`${getClientId(req, res)}:edit`, abortController, signal => {
+            logger.debug('model prompt', { prompt: prompt.prompt });
+            return context.backend.generate({ ...prompt, prefix: '', suffix: '', stop: context.stopTokens, instruction: true }, signal);
+        });
+        logger.debug('model output', { text: rawText });
+
+        const text = postProcessEdit(rawText, selection, context.stopTokens);
+        annotateRequest(res, { suggestionChars: text.length });
+        res.json({ status: 'ok', text, model: context.backend.model, template: context.template.name });
+
+    } catch (error) {
+        if (error instanceof QueueError) {
+            annotateRequest(res, { queue: error.status });
+            return sendQueueStatus(res, error);
+        }
+        logger.error('edit failed', { error });
+        res.status(500).json({ status: 'error', error: "Failed to generate the edit." });
+    }
+}
+
+// -------------------------------------------------------------------
+// 🚦 Request Queue
+// -------------------------------------------------------------------
+
+type QueueStatus = 'busy' | 'superseded' | 'cancelled';
+
+/**
+ * Why a queued request did not produce a suggestion.
+ * Used as the abort reason, so an aborted upstream `fetch` rejects with it directly.
+ */
+class QueueError extends Error {
+    constructor(public readonly status: QueueStatus) {
+        super(`Completion request ${status}`);
+        this.name = 'QueueError';
+    }
+}
+
+interface QueueEntry {
+    clientId: string;
+    abortController: AbortController;
+    start: () => Promise<void>;
+    reject: (error: unknown) => void;
+}
+
+/**
+ * Runs one model generation at a time. Each client has at most one request in the queue:
+ * a newer request from the same client replaces the waiting one and aborts the running one.
+ */
+class CompletionQueue {
+    private running: QueueEntry | undefined;
+    private waiting: QueueEntry[] = [];
+    private closed = false;
+
+    constructor(private readonly maxWaiting: number) {}
+
+    enqueue<T>(clientId: string, abortController: AbortController, task: (signal: AbortSignal) => Promise<T>): Promise<T> {
+        // 0. Shutting down: no new work, clients retry against the next instance
+        if (this.closed) {
+            return Promise.reject(new QueueError('busy'));
+        }
+
+        // 1. Supersede older requests of the same client
+        if (this.running?.clientId === clientId) {
+            this.running.abortController.abort(new QueueError('superseded'));
+        }
+        const previous = this.waiting.find(entry => entry.clientId === clientId);
+        if (previous) {
+            previous.abortController.abort(new QueueError('superseded'));
+        }
+
+        // 2. Refuse when too many other clients are already waiting
+        if (this.waiting.length >= this.maxWaiting) {
+            return Promise.reject(new QueueError('busy'));
+        }
+
+        return new Promise<T>((resolve, reject) => {
+            const entry: QueueEntry = {
+                clientId,
+                abortController,
+                start: () => task(abortController.signal).then(resolve, reject),
+                reject
+            };
+
+            // A request aborted while still waiting leaves the queue right away
+            abortController.signal.addEventListener('abort', () => {
+                const index = this.waiting.indexOf(entry);
+                if (index !== -1) {
+                    this.waiting.splice(index, 1);
+                    reject(abortController.signal.reason);
+                }
+            }, { once: true });
+
+            this.waiting.push(entry);
+            this.next();
+        });
+    }
+
+    stats(): { running: number; waiting: number } {
+        return { running: this.running ? 1 : 0, waiting: this.waiting.length };
+    }
+
+    close(): void {
+        this.closed = true;
+    }
+
+    abortAll(): void {
+        for (const entry of [...this.waiting, ...(this.running ? [this.running] : [])]) {
+            entry.abortController.abort(new QueueError('cancelled'));
+        }
+    }
+
+    private next(): void {
+        if (this.running || this.waiting.length === 0) {
+            return;
+        }
+        const entry = this.waiting.shift()!;
+        this.running = entry;
+
+        entry.start().finally(() => {
+            this.running = undefined;
+            this.next();
+        });
+    }
+}
+
+// Identifies the editor window a request comes from (sent by the extension), falling back to the IP.
+// With API keys the authenticated user comes first: a client id only counts within its own user.
+function getClientId(req: Request, res: Response): string {
+    const clientId = req.header('X-Client-Id') ?? req.ip ?? 'unknown';
+    return res.locals.user ? `${res.locals.user}:${clientId}` : clientId;
+}
+
+// Aborts the queued or running generation when the client goes away before the response is finished
+function abortOnDisconnect(res: Response): AbortController {
+    const abortController = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) {
+            abortController.abort(new QueueError('cancelled'));
+        }
+    });
+    return abortController;
+}
+
+// Busy and superseded are real statuses, never a suggestion text
+function sendQueueStatus(res: Response, error: QueueError) {
+    if (res.destroyed) {
+        return; // Cancelled: the client is gone, nobody to answer
+    }
+    if (error.status === 'busy') {
+        res.setHeader('Retry-After', '1');
+        return res.status(503).json({ status: 'busy' });
+    }
+    return res.status(409).json({ status: error.status });
+}
+
+// -------------------------------------------------------------------
+// 🧱 Prompt Builder
+// -------------------------------------------------------------------
+
+/**
+ * Builds the FIM prompt for the configured template from the context sent by the extension.
+ * Returns undefined when the cursor marker is missing.
+ */
+function buildFimPrompt(context: CompletionContext, context_text: string, repoName?: string): FimPrompt | undefined {
+    const { template, estimateTokens, promptTokenBudget } = context;
+
+    // Clean up excessive whitespace/markers, if necessary.
+    const context_text_updated = context_text.replace('  ', '').trim();
+
+    // 1. SPLIT INTO FILE BLOCKS: the block with the cursor is the active file, the rest are pinned context files
+    const blocks = splitFileBlocks(context_text_updated);
+    const activeBlock = blocks.find(block => block.content.includes(CURSOR_MARKER));
+    
+    if (!activeBlock) {
+        return undefined;
+    }
+    const pinnedBlocks = blocks.filter(block => block !== activeBlock);
+
+    const cursorIndex = activeBlock.content.indexOf(CURSOR_MARKER);
+    const prefixContent = activeBlock.content.substring(0, cursorIndex);
+    const suffixContent = activeBlock.content.substring(cursorIndex + CURSOR_MARKER.length);
+
+    // 🔑 CONTEXT BUDGET: whatever the template itself costs (tokens, headers, chat wrapper) is taken first,
+    // the rest is filled by priority: cursor-adjacent lines, enclosing scope, imports, pinned files
+    const emptyParts: PromptParts = { repoName, contextFiles: [], activePath: activeBlock.path, prefix: '', suffix: '' };
+    const templateTokens = estimateTokens(renderPrompt(template, emptyParts));
+
+    const budgeted = fitToBudget({
+        prefix: prefixContent,
+        suffix: suffixContent,
+        contextFiles: pinnedBlocks,
+        budgetTokens: promptTokenBudget - templateTokens,
+        estimateTokens
+    });
+    const parts: PromptParts = {
+        ...emptyParts,
+        contextFiles: budgeted.contextFiles,
+        prefix: budgeted.prefix,
+        suffix: budgeted.suffix
+    };
+
+    // 2. RENDER THE TEMPLATE (FIM tokens, optional repo/file headers and chat wrapper)
+    const fimPrompt = renderPrompt(template, parts);
+
+    context.logger.debug('prompt', {
+        chars: fimPrompt.length,
+        tokens: templateTokens + budgeted.usedTokens,
+        budgetTokens: promptTokenBudget,
+        prefixChars: parts.prefix.length,
+        suffixChars: parts.suffix.length
+    });
+
+    return { fimPrompt, prefixContent: renderPlainPrefix(parts), suffixContent: parts.suffix };
+}
+
+/**
+ * Builds the edit prompt. The instruction and the whole selection always go in (undefined when they alone
+ * exceed the budget); the enclosing code and pinned files fill the rest, like a completion's context.
+ */
+function buildEditPrompt(context: CompletionContext, request: EditRequest): { prompt: string; raw: boolean } | undefined {
+    const { template, estimateTokens, promptTokenBudget } = context;
+    const emptyParts: EditPromptParts = {
+        instruction: request.instruction.trim(),
+        contextFiles: [],
+        path: request.path ?? '',
+        prefix: '',
+        selection: request.selection,
+        suffix: ''
+    };
+    const fixedTokens = estimateTokens(renderEditPrompt(template, emptyParts));
+    if (fixedTokens > promptTokenBudget) {
+        return undefined;
+    }
+
+    const budgeted = fitToBudget({
+        prefix: request.prefix ?? '',
+        suffix: request.suffix ?? '',
+        contextFiles: splitFileBlocks(request.context_text ?? ''),
+        budgetTokens: promptTokenBudget - fixedTokens,
+        estimateTokens
+    });
+    const prompt = renderEditPrompt(template, {
+        ...emptyParts,
+        contextFiles: budgeted.contextFiles,
+        prefix: budgeted.prefix,
+        suffix: budgeted.suffix
+    });
+
+    context.logger.debug('edit prompt', { chars: prompt.length, tokens: fixedTokens + budgeted.usedTokens, budgetTokens: promptTokenBudget });
+    // Without a chat wrapper of its own the prompt is plain text, the backend's chat template goes around it
+    return { prompt, raw: template.chat ? template.raw : false };
+}
+
+// -------------------------------------------------------------------
+// 📂 Context File Helpers
+// -------------------------------------------------------------------
+
+/**
+ * Splits the context text into its "--- FILE: path ---" blocks.
+ * Text sent without any header becomes a single block with an empty path.
+ */
+function splitFileBlocks(contextText: string): FileBlock[] {
+    const header = FILE_SEPARATOR.trimStart();
+    // The controller trims the text, so the first separator may have lost its leading newlines
+    const normalized = contextText.startsWith(header) ? `\n\n${contextText}` : contextText;
+    const parts = normalized.split(FILE_SEPARATOR);
+
+    const blocks: FileBlock[] = [];
+    if (parts[0].trim().length > 0) {
+        blocks.push({ path: '', content: parts[0] });
+    }
+
+    for (const part of parts.slice(1)) {
+        const headerEnd = part.indexOf(' ---\n');
+        if (headerEnd === -1) {
+            blocks.push({ path: '', content: part });
+            continue;
+        }
+        blocks.push({
+            path: part.substring(0, headerEnd),
+            content: part.substring(headerEnd + ' ---\n'.length)
+        });
+    }
+    return blocks;
+}
+
+// -------------------------------------------------------------------
+// 🧹 Post-Processing Helper
+// -------------------------------------------------------------------
+
+/**
+ * Cleans the raw model suggestion by stripping repetition, stop tokens, and suffix overlap.
+ */
+function postProcessSuggestion(rawSuggestion: string, suffixContent: string, fimPrompt: string, stopTokens: string[]): string {
+    let cleanedSuggestion = rawSuggestion;
+    
+    // 1. Aggressive Prompt Stripping 
+    const promptIndex = cleanedSuggestion.lastIndexOf(fimPrompt);
+    if (promptIndex !== -1) {
+        cleanedSuggestion = cleanedSuggestion.substring(promptIndex + fimPrompt.length);
+    } 
+    
+    // 2. Strip End Tokens and Separators
+    for (const token of stopTokens) {
+        const index = cleanedSuggestion.indexOf(token);
+        if (index !== -1) {
+            cleanedSuggestion = cleanedSuggestion.substring(0, index).trimEnd();
+        }
+    }
+    
+    // 3. Find and trim any overlap with the start of the original suffix
+    // (repeated closing brackets on the cursor line are merged by `mergeWithSuffix` instead)
+    const overlapIndex = findSuffixOverlap(cleanedSuggestion, suffixContent);
+    if (overlapIndex > 0) {
+        cleanedSuggestion = cleanedSuggestion.substring(0, overlapIndex).trimEnd();
+    }
+    
+    return cleanedSuggestion.trim();
+}
+
+/**
+ * Cleans a rewritten selection: cut at stop tokens, the code inside a markdown fence or echoed selection
+ * markers, and the selection's own leading and trailing whitespace (indentation, final newline) restored.
+ */
+function postProcessEdit(rawText: string, selection: string, stopTokens: string[]): string {
+    let text = rawText;
+
+    // 1. Stop tokens
+    for (const token of stopTokens) {
+        const index = text.indexOf(token);
+        if (index !== -1) {
+            text = text.substring(0, index);
+        }
+    }
+
+    // 2. Chatty models wrap the code in a fence (maybe after a sentence) or repeat the markers
+    const fenced = text.match(/```[\w+#.-]*[ \t]*\n([\s\S]*?)\n?```/);
+    if (fenced) {
+        text = fenced[1];
+    }
+    const markerStart = text.indexOf(SELECTION_START);
+    if (markerStart !== -1) {
+        const markerEnd = text.indexOf(SELECTION_END, markerStart);
+        text = text.substring(markerStart + SELECTION_START.length, markerEnd === -1 ? undefined : markerEnd);
+    }
+    text = text.split(SELECTION_END).join('');
+
+    // 3. Whitespace around the selection belongs to the file, not to the rewrite
+    if (!text.trim()) {
+        return '';
+    }
+    const leading = selection.match(/^\s*/)![0];
+    const trailing = selection.match(/\s*$/)![0];
+    return leading + text.trim() + trailing;
+}
+
+/**
+ * Incremental version of `postProcessSuggestion` for streamed output.
+ * Returns the text that is safe to show so far and whether generation can stop:
+ * a stop token, an overlap with the suffix, or a natural boundary (end of statement or block) was reached.
+ */
+function processStreamedSuggestion(rawSoFar: string, suffixContent: string, stopTokens: string[]): { text: string; complete: boolean } {
+    let text = rawSoFar;
+    let complete = false;
+
+    // 1. Markdown fences: drop the opening ```lang line, a closing fence ends the suggestion
+    if (/^\s*```/.test(text)) {
+        const firstNewline = text.indexOf('\n');
+        if (firstNewline === -1) {
+            return { text: '', complete: false };
+        }
+        text = text.substring(firstNewline + 1);
+    }
+    const fenceIndex = text.indexOf('\n```');
+    if (fenceIndex !== -1) {
+        text = text.substring(0, fenceIndex);
+        complete = true;
+    }
+
+    // 2. Stop tokens
+    for (const token of stopTokens) {
+        const index = text.indexOf(token);
+        if (index !== -1) {
+            text = text.substring(0, index);
+            complete = true;
+        }
+    }
+
+    // 3. Overlap with the first line of the suffix
+    const overlapIndex = findSuffixOverlap(text, suffixContent);
+    if (overlapIndex > 0) {
+        text = text.substring(0, overlapIndex);
+        complete = true;
+    }
+
+    // 4. Natural boundary: cut after the first complete line that closes everything opened so far
+    const boundary = findNaturalBoundary(text);
+    if (boundary !== -1) {
+        text = text.substring(0, boundary);
+        complete = true;
+    }
+
+    // 5. Hold back a trailing partial stop token (e.g. "<|im_") until the next chunk decides
+    if (!complete) {
+        for (const token of stopTokens) {
+            for (let length = Math.min(token.length - 1, text.length); length > 0; length--) {
+                if (text.endsWith(token.substring(0, length))) {
+                    text = text.substring(0, text.length - length);
+                    break;
+                }
+            }
+        }
+    }
+
+    return { text: complete ? text.trim() : text.trimStart(), complete };
+}
+
+/**
+ * Finds the end of the first complete line after which the suggestion is "done":
+ * brackets opened by the suggestion are closed again and the line ends a statement or block
+ * (`;`, `}`, `)`), or a blank line follows balanced code. Returns -1 when no boundary is reached yet.
+ */
+function findNaturalBoundary(text: string): number {
+    let depth = 0;
+    let hasCode = false;
+    let lineStart = 0;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === '(' || char === '[' || char === '{') {
+            depth++;
+        } else if (char === ')' || char === ']' || char === '}') {
+            depth--;
+        }
+
+        if (char !== '\n') {
+            continue;
+        }
+
+        const line = text.substring(lineStart, i).trim();
+        lineStart = i + 1;
+
+        if (line.length === 0) {
+            if (hasCode && depth <= 0) {
+                return i;
+            }
+            continue;
+        }
+        hasCode = true;
+
+        if (depth <= 0 && /[;})]$/.test(line)) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+// -------------------------------------------------------------------
+// 💻 AI Model API Client
+// -------------------------------------------------------------------
+function stripCodeBlock(codeBlock: string): string {
+    const regex = /^\s*```[a-zA-Z0-9]*\n(.*)\n```\s*$/s;
+
+    // Use replace with a capture group ($1) to keep only the code content
+    const match = codeBlock.match(regex);
+    
+    if (match && match[1]) {
+        // Return the captured group (the clean code), removing leading/trailing whitespace
+        return match[1].trim();
+    }
+    
+    // If no full code block match is found, return the original string trimmed
+    return codeBlock.trim();
+}
+// Prompts and raw model output are only logged at the "debug" level: they contain the user's code
+async function callFimModelAPI(context: CompletionContext, prompt: FimPrompt, signal: AbortSignal): Promise<string> {
+    context.logger.debug('model prompt', { prompt: prompt.fimPrompt });
+    
+    // Aborting the signal (client gone or superseded) cancels the generation in the backend too
+    const response = await context.backend.generate(toBackendPrompt(context, prompt), signal);
+    context.logger.debug('model output', { text: response });
+    return stripCodeBlock(response) ?? "";
+}
+
+async function callFimModelCandidatesAPI(context: CompletionContext, prompt: FimPrompt, count: number, signal: AbortSignal): Promise<Candidate[]> {
+    context.logger.debug('model prompt', { prompt: prompt.fimPrompt });
+
+    const candidates = await context.backend.generateCandidates(toBackendPrompt(context, prompt), count, signal);
+    context.logger.debug('model output', { candidates });
+    return candidates.map(candidate => ({ ...candidate, text: stripCodeBlock(candidate.text) ?? "" }));
+}
+
+/**
+ * Drops empty and duplicate candidates (same text ignoring surrounding whitespace, the better-ranked one stays)
+ * and orders the rest by mean log-probability, best first. Without log-probabilities the sampling order is kept.
+ */
+export function rankCandidates(candidates: Candidate[]): string[] {
+    const score = (candidate: Candidate) => candidate.meanLogprob ?? -Infinity;
+    const ranked = candidates
+        .filter(candidate => candidate.text.trim().length > 0)
+        .map((candidate, index) => ({ candidate, index }))
+        .sort((a, b) => score(b.candidate) - score(a.candidate) || a.index - b.index)
+        .map(entry => entry.candidate.text);
+
+    const seen = new Set<string>();
+    return ranked.filter(text => {
+        const key = text.trim();
+        if (seen.has(key)) {
+            return false;
+        }
+        seen.add(key);
+        return true;
+    });
+}
+
+/**
+ * Streams the generation from the backend. `onProgress` receives the whole raw text so far after
+ * every chunk and returns true when generation should stop early (the upstream call is closed).
+ * Resolves with the raw text generated up to that point.
+ */
+async function streamFimModelAPI(
+    context: CompletionContext,
+    prompt: FimPrompt,
+    signal: AbortSignal,
+    onProgress: (rawSoFar: string) => boolean
+): Promise<string> {
+    let rawSoFar = '';
+    context.logger.debug('model prompt', { prompt: prompt.fimPrompt });
+
+    // Leaving the loop early closes the upstream request, so the model stops generating
+    for await (const chunk of context.backend.stream(toBackendPrompt(context, prompt), signal)) {
+        rawSoFar += chunk;
+        if (onProgress(rawSoFar)) {
+            break;
+        }
+    }
+    context.logger.debug('model output', { text: rawSoFar });
+    return rawSoFar;
+}
+
+function toBackendPrompt(context: CompletionContext, prompt: FimPrompt): BackendPrompt {
+    return {
+        prompt: prompt.fimPrompt,
+        prefix: prompt.prefixContent,
+        suffix: prompt.suffixContent,
+        stop: context.stopTokens,
+        raw: context.template.raw
+    };
+}
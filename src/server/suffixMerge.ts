@@ -0,0 +1,126 @@
+import { SuggestionEdit } from "../suggestionEdit";
+
+// -------------------------------------------------------------------
+// 🧷 Merging a Suggestion with the Text after the Cursor
+// -------------------------------------------------------------------
+
+const OPENERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSERS = new Set([')', ']', '}']);
+const QUOTES = new Set(['"', "'", '`']);
+
+// Characters the model may repeat at the end of a statement without them carrying any code
+const TRAILING_PUNCTUATION = /^[;,.:]+$/;
+
+/**
+ * The closing brackets and quotes of the suggestion that close something opened before the cursor,
+ * in the order they appear. A quote counts when it appears an odd number of times (the first one closes
+ * the string the cursor is in); brackets inside the suggestion's own strings are ignored.
+ */
+function unmatchedClosers(suggestion: string): string[] {
+    const closers: string[] = [];
+    const stack: string[] = [];
+
+    // Inside an (auto-closed) string at the cursor: the first such quote closes it
+    let openQuote: string | undefined;
+    for (const quote of QUOTES) {
+        if (suggestion.split(quote).length % 2 === 0) {
+            openQuote = quote;
+            break;
+        }
+    }
+
+    let inString: string | undefined = openQuote;
+    for (let i = 0; i < suggestion.length; i++) {
+        const char = suggestion[i];
+
+        if (inString) {
+            if (char === '\\') {
+                i++;
+            } else if (char === inString) {
+                if (inString === openQuote) {
+                    closers.push(char);
+                    openQuote = undefined;
+                }
+                inString = undefined;
+            }
+            continue;
+        }
+
+        if (QUOTES.has(char)) {
+            inString = char;
+        } else if (OPENERS[char]) {
+            stack.push(OPENERS[char]);
+        } else if (CLOSERS.has(char)) {
+            if (stack.length > 0 && stack[stack.length - 1] === char) {
+                stack.pop();
+            } else {
+                closers.push(char);
+            }
+        }
+    }
+    return closers;
+}
+
+// Whether the text has word characters, i.e. is code rather than only brackets and punctuation
+function hasCode(text: string): boolean {
+    return /\w/.test(text);
+}
+
+/**
+ * Turns a cleaned suggestion into an edit that merges with the rest of the cursor line:
+ * - when the suggestion ends with that whole rest (the model re-emitted it), the rest is replaced;
+ * - closing brackets and quotes that are already after the cursor (auto-closed) and that the suggestion
+ *   closes again are replaced, plus a repeated trailing `;`/`,` right after them.
+ * Everything else is inserted before the existing text.
+ */
+export function mergeWithSuffix(suggestion: string, suffix: string): SuggestionEdit {
+    const lineRest = suffix.split('\n')[0].trimEnd();
+    const trimmed = suggestion.trimEnd();
+
+    if (lineRest.length === 0 || trimmed.length === 0) {
+        return { insertText: suggestion, replace: 0 };
+    }
+
+    // 1. The model repeated everything that follows the cursor on this line
+    if (hasCode(lineRest) && trimmed.endsWith(lineRest) && trimmed.length > lineRest.length) {
+        return { insertText: trimmed, replace: lineRest.length };
+    }
+
+    // 2. Auto-closed brackets and quotes, in the order the suggestion closes them
+    const closers = unmatchedClosers(trimmed);
+    let replace = 0;
+    while (replace < closers.length && replace < lineRest.length && lineRest[replace] === closers[replace]) {
+        replace++;
+    }
+    if (replace === 0) {
+        return { insertText: suggestion, replace: 0 };
+    }
+
+    // 3. A statement end after those closers that the suggestion ends with too ("foo(|);" + "a);")
+    for (let end = lineRest.length; end > replace; end--) {
+        const punctuation = lineRest.substring(replace, end);
+        if (TRAILING_PUNCTUATION.test(punctuation) && trimmed.endsWith(punctuation)) {
+            replace = end;
+            break;
+        }
+    }
+    return { insertText: trimmed, replace };
+}
+
+/**
+ * Where the suggestion starts repeating the code that follows the cursor line (the model kept going
+ * past the cursor), or -1. Only for a rest of line with actual code: a lone `)` or `}` is handled
+ * by `mergeWithSuffix` instead of cutting the suggestion at its first closing bracket.
+ */
+export function findSuffixOverlap(suggestion: string, suffix: string): number {
+    const lineRest = suffix.split('\n')[0].trim();
+    if (!hasCode(lineRest)) {
+        return -1;
+    }
+    const overlapIndex = suggestion.indexOf(lineRest);
+    // Ending with the whole rest of the line is a merge, not an overlap
+    if (overlapIndex <= 0 || overlapIndex + lineRest.length === suggestion.trimEnd().length) {
+        return -1;
+    }
+    return overlapIndex;
+}
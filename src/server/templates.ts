@@ -0,0 +1,276 @@
+import * as fs from "fs";
+
+// -------------------------------------------------------------------
+// 🧩 FIM Prompt Templates
+// -------------------------------------------------------------------
+
+// Plain-text header used between files when a template has no repo-level file tokens
+export const FILE_SEPARATOR = "\n\n--- FILE: ";
+
+export interface FimTemplate {
+    name: string;
+    description?: string;
+
+    // FIM tokens, the prompt is PREFIX_TOKEN + prefix + SUFFIX_TOKEN + suffix + MIDDLE_TOKEN
+    prefixToken: string;
+    suffixToken: string;
+    middleToken: string;
+
+    // Sequences that end the generation (also stripped in post-processing)
+    stop: string[];
+
+    // The prompt is sent as-is, without the backend applying the model's own chat template (Ollama `raw`)
+    raw: boolean;
+
+    // Average characters per token of the model's tokenizer, used to estimate prompt size
+    charsPerToken?: number;
+
+    // Repo-level tokens: when set, the prompt starts with the repo name and every file gets a file-name header
+    fileHeader?: {
+        repoNameToken: string;
+        fileSeparatorToken: string;
+    };
+
+    // Chat wrapper for instruct models that need the FIM structure inside a user turn
+    chat?: {
+        imStart: string;
+        imEnd: string;
+        system: string;
+    };
+}
+
+// A file sent along with the prompt (pinned context files and the active file)
+export interface FileBlock {
+    path: string;
+    content: string;
+}
+
+export interface PromptParts {
+    repoName?: string;
+    contextFiles: FileBlock[];  // Already budgeted, in priority order
+    activePath: string;
+    prefix: string;             // Active file text before the cursor
+    suffix: string;             // Active file text after the cursor
+}
+
+// --- 📚 Built-in Templates ---
+
+export const BUILT_IN_TEMPLATES: FimTemplate[] = [
+    {
+        name: 'qwen-chat-fim',
+        description: 'Qwen2.5-coder instruct: FIM tokens wrapped in a chat turn',
+        prefixToken: '<|fim_prefix|>',
+        suffixToken: '<|fim_suffix|>',
+        middleToken: '<|fim_middle|>',
+        stop: [
+            '<|fim_prefix|>', '<|fim_suffix|>', '<|fim_middle|>',
+            '<|im_start|>', '<|im_end|>',
+            '</tool_response>' // Add tool/chat tags as stop tokens
+        ],
+        raw: false,
+        charsPerToken: 3.3,
+        chat: {
+            imStart: '<|im_start|>',
+            imEnd: '<|im_end|>',
+            system: 'You are a concise code completion engine. Only output code, nothing else.'
+        }
+    },
+    {
+        name: 'qwen-fim',
+        description: 'Qwen2.5-coder base: raw repo-level FIM, no chat wrapper',
+        prefixToken: '<|fim_prefix|>',
+        suffixToken: '<|fim_suffix|>',
+        middleToken: '<|fim_middle|>',
+        stop: [
+            '<|endoftext|>', '<|fim_prefix|>', '<|fim_suffix|>', '<|fim_middle|>',
+            '<|fim_pad|>', '<|repo_name|>', '<|file_sep|>', '<|im_start|>', '<|im_end|>'
+        ],
+        raw: true,
+        charsPerToken: 3.3,
+        fileHeader: {
+            repoNameToken: '<|repo_name|>',
+            fileSeparatorToken: '<|file_sep|>'
+        }
+    },
+    {
+        name: 'starcoder2',
+        description: 'StarCoder2: repo-level FIM',
+        prefixToken: '<fim_prefix>',
+        suffixToken: '<fim_suffix>',
+        middleToken: '<fim_middle>',
+        stop: ['<|endoftext|>', '<fim_prefix>', '<fim_suffix>', '<fim_middle>', '<file_sep>', '<repo_name>'],
+        raw: true,
+        charsPerToken: 3.1,
+        fileHeader: {
+            repoNameToken: '<repo_name>',
+            fileSeparatorToken: '<file_sep>'
+        }
+    },
+    {
+        name: 'deepseek-coder',
+        description: 'DeepSeek-Coder: fim begin/hole/end',
+        prefixToken: '<｜fim▁begin｜>',
+        suffixToken: '<｜fim▁hole｜>',
+        middleToken: '<｜fim▁end｜>',
+        stop: ['<｜end▁of▁sentence｜>', '<｜fim▁begin｜>', '<｜fim▁hole｜>', '<｜fim▁end｜>', '<|EOT|>'],
+        raw: true,
+        charsPerToken: 3.2
+    },
+    {
+        name: 'codellama',
+        description: 'CodeLlama: <PRE>/<SUF>/<MID>',
+        prefixToken: '<PRE> ',
+        suffixToken: ' <SUF>',
+        middleToken: ' <MID>',
+        stop: ['<EOT>', '</s>', '<PRE>', '<SUF>', '<MID>'],
+        raw: true,
+        charsPerToken: 2.9
+    }
+];
+
+export const DEFAULT_TEMPLATE_NAME = 'qwen-chat-fim';
+
+// -------------------------------------------------------------------
+// 🗂️ Template Registry
+// -------------------------------------------------------------------
+
+/**
+ * Loads the built-in templates plus user-defined ones from a JSON file (an array of `FimTemplate`).
+ * A user template with the same name as a built-in one replaces it.
+ */
+export function loadTemplates(templatesFile?: string): Map<string, FimTemplate> {
+    const templates = new Map(BUILT_IN_TEMPLATES.map(template => [template.name, template]));
+
+    if (templatesFile) {
+        const userTemplates = JSON.parse(fs.readFileSync(templatesFile, "utf-8")) as FimTemplate[];
+        for (const template of userTemplates) {
+            validateTemplate(template);
+            templates.set(template.name, { ...template, raw: template.raw ?? true, stop: template.stop ?? [] });
+        }
+    }
+    return templates;
+}
+
+function validateTemplate(template: Partial<FimTemplate>): void {
+    const required: (keyof FimTemplate)[] = ['name', 'prefixToken', 'suffixToken', 'middleToken'];
+    for (const field of required) {
+        if (typeof template[field] !== 'string') {
+            throw new Error(`Template ${template.name ?? '(unnamed)'} is missing "${field}"`);
+        }
+    }
+}
+
+/**
+ * Picks a template by name (the server's `template` setting / `FIM_TEMPLATE`, default: qwen-chat-fim).
+ * User templates are read from `templatesFile` (`FIM_TEMPLATES_FILE`).
+ */
+export function resolveTemplate(name: string = DEFAULT_TEMPLATE_NAME, templatesFile?: string): FimTemplate {
+    const templates = loadTemplates(templatesFile);
+    const template = templates.get(name);
+
+    if (!template) {
+        throw new Error(`Unknown FIM template "${name}", available: ${Array.from(templates.keys()).join(', ')}`);
+    }
+    return template;
+}
+
+// Every stop sequence for a template, including the plain-text file separator the prompt may contain
+export function stopSequencesFor(template: FimTemplate): string[] {
+    return template.fileHeader ? template.stop : [...template.stop, FILE_SEPARATOR];
+}
+
+// -------------------------------------------------------------------
+// 🧱 Rendering
+// -------------------------------------------------------------------
+
+/**
+ * Renders the final prompt. Templates with repo-level tokens get
+ * `<repo_name>repo <file_sep>path content ... <file_sep>active <fim_prefix>...`,
+ * the others get the pinned files as "--- FILE: path ---" blocks at the start of the prefix.
+ */
+export function renderPrompt(template: FimTemplate, parts: PromptParts): string {
+    let header = '';
+    let prefix = parts.prefix;
+
+    if (template.fileHeader) {
+        const { repoNameToken, fileSeparatorToken } = template.fileHeader;
+        header = `${repoNameToken}${parts.repoName ?? 'workspace'}\n`;
+        for (const file of parts.contextFiles) {
+            header += `${fileSeparatorToken}${file.path}\n${file.content}\n`;
+        }
+        header += `${fileSeparatorToken}${parts.activePath}\n`;
+    } else {
+        prefix = renderPlainPrefix(parts);
+    }
+
+    // FIM Structure: PREFIX_TOKEN PREFIX SUFFIX_TOKEN SUFFIX MIDDLE_TOKEN
+    const fimStructure = `${header}${template.prefixToken}${prefix}${template.suffixToken}${parts.suffix}${template.middleToken}`;
+
+    if (!template.chat) {
+        return fimStructure;
+    }
+
+    /* Chat wrapper structure:
+    <|im_start|>system
+    System instruction<|im_end|>
+    <|im_start|>user
+    FIM_CONTEXT<|im_end|>
+    <|im_start|>assistant
+    */
+    const { imStart, imEnd, system } = template.chat;
+    return `${imStart}system\n${system}${imEnd}\n` +
+        `${imStart}user\n${fimStructure}${imEnd}\n` +
+        `${imStart}assistant\n`; // End with assistant tag for model to begin generation
+}
+
+/**
+ * The prefix with pinned files and the active file as "--- FILE: path ---" blocks.
+ * Also used for backends with a native infill endpoint, which add the FIM tokens themselves.
+ */
+export function renderPlainPrefix(parts: PromptParts): string {
+    const pinnedContext = parts.contextFiles
+        .map(file => `${FILE_SEPARATOR}${file.path} ---\n${file.content}`)
+        .join('');
+    const activeHeader = parts.activePath ? `${FILE_SEPARATOR}${parts.activePath} ---\n` : '';
+    return `${pinnedContext}${activeHeader}${parts.prefix}`.trimStart();
+}
+
+// -------------------------------------------------------------------
+// ✏️ Edit Prompts (POST /edit)
+// -------------------------------------------------------------------
+
+// Wrapped around the selection inside its enclosing code, so the model knows which part to rewrite
+export const SELECTION_START = '<selection>';
+export const SELECTION_END = '</selection>';
+
+const EDIT_SYSTEM_PROMPT = `You are a precise code editor. Rewrite the code between ${SELECTION_START} and ${SELECTION_END} ` +
+    'as the instruction says. Output only the code that replaces the selection: no markers, no explanations, no markdown fences.';
+
+export interface EditPromptParts {
+    instruction: string;
+    contextFiles: FileBlock[];  // Already budgeted, in priority order
+    path: string;
+    prefix: string;             // Enclosing code before the selection
+    selection: string;
+    suffix: string;             // Enclosing code after the selection
+}
+
+/**
+ * Renders an instruction to rewrite the selection. Templates with a chat wrapper get it as a system and
+ * user turn; for the others the prompt is plain text and must be sent without `raw`, so the backend
+ * applies the model's own chat template.
+ */
+export function renderEditPrompt(template: FimTemplate, parts: EditPromptParts): string {
+    const files = parts.contextFiles.map(file => `${FILE_SEPARATOR}${file.path} ---\n${file.content}`).join('');
+    const request = `${files}${FILE_SEPARATOR}${parts.path} ---\n` +
+        `${parts.prefix}${SELECTION_START}${parts.selection}${SELECTION_END}${parts.suffix}\n\n` +
+        `Instruction: ${parts.instruction}`;
+
+    if (!template.chat) {
+        return `${EDIT_SYSTEM_PROMPT}\n${request}\n`;
+    }
+    const { imStart, imEnd } = template.chat;
+    return `${imStart}system\n${EDIT_SYSTEM_PROMPT}${imEnd}\n` +
+        `${imStart}user\n${request.trimStart()}${imEnd}\n` +
+        `${imStart}assistant\n`;
+}
@@ -0,0 +1,262 @@
+import * as fs from 'fs';
+import * as https from 'https';
+import * as tls from 'tls';
+import { Readable } from 'stream';
+import * as vscode from 'vscode';
+import { log } from './outputChannel';
+import { setServerProblem } from './statusBar';
+
+// --- API Key (kept in SecretStorage, never in settings) ---
+
+const API_KEY_SECRET = "codeSuggestions.apiKey";
+
+let apiKey: string | undefined;
+
+// 401s show one notification until the key changes, not one per keystroke
+let unauthorizedNotified = false;
+
+// After a 429, no requests are sent until the time the server asked us to wait for
+let backoffUntil = 0;
+
+/**
+ * Loads the API key and registers the commands that set and clear it.
+ * The key is sent as `Authorization: Bearer <key>` with every request to the completion server.
+ */
+export function registerServerConnection(context: vscode.ExtensionContext): void {
+  const loadApiKey = async () => {
+    apiKey = await context.secrets.get(API_KEY_SECRET);
+    unauthorizedNotified = false;
+    backoffUntil = 0;
+  };
+  loadApiKey();
+
+  context.subscriptions.push(
+    context.secrets.onDidChange(e => {
+      if (e.key === API_KEY_SECRET) {
+        loadApiKey();
+      }
+    }),
+
+    vscode.commands.registerCommand('codeSuggestions.setApiKey', async () => {
+      const key = await vscode.window.showInputBox({
+        title: "Code Suggestions: API Key",
+        prompt: "API key for the completion server (stored in the OS keychain via VS Code SecretStorage)",
+        password: true,
+        ignoreFocusOut: true
+      });
+      if (key?.trim()) {
+        await context.secrets.store(API_KEY_SECRET, key.trim());
+        vscode.window.showInformationMessage("Code Suggestions: API key saved.");
+      }
+    }),
+
+    vscode.commands.registerCommand('codeSuggestions.clearApiKey', async () => {
+      await context.secrets.delete(API_KEY_SECRET);
+      vscode.window.showInformationMessage("Code Suggestions: API key removed.");
+    })
+  );
+}
+
+export function authorizationHeaders(): Record<string, string> {
+  return apiKey ? { "Authorization": `Bearer ${apiKey}` } : {};
+}
+
+// --- Rejected Requests (401 / 429) ---
+
+// How long requests are still held back after a 429 (0 when they may be sent)
+export function backoffRemainingMs(): number {
+  return Math.max(0, backoffUntil - Date.now());
+}
+
+/**
+ * Handles the answers that need the user rather than a retry:
+ * 401 asks once for a (new) API key, 429 holds back requests for the server's `Retry-After`.
+ * Returns false for every other response.
+ */
+export function handleRejectedResponse(response: Response, data: { error?: string }): boolean {
+  if (response.status === 401) {
+    log.error(`Request rejected: ${data.error ?? "unauthorized"}`);
+    if (!unauthorizedNotified) {
+      unauthorizedNotified = true;
+      const message = apiKey
+        ? `Code Suggestions: the server rejected the API key (${data.error ?? "unauthorized"}).`
+        : "Code Suggestions: the server requires an API key.";
+      vscode.window.showErrorMessage(message, "Set API Key").then(choice => {
+        if (choice) {
+          vscode.commands.executeCommand('codeSuggestions.setApiKey');
+        }
+      });
+    }
+    return true;
+  }
+
+  if (response.status === 429) {
+    const retryAfterSeconds = Number(response.headers.get("Retry-After")) || 5;
+    backoffUntil = Date.now() + retryAfterSeconds * 1000;
+    log.warn(`Request rate limited, waiting ${retryAfterSeconds}s: ${data.error ?? ""}`);
+    vscode.window.setStatusBarMessage(
+      `$(watch) Code Suggestions: rate limited, retrying in ${retryAfterSeconds}s`, retryAfterSeconds * 1000
+    );
+    return true;
+  }
+  return false;
+}
+
+// --- HTTPS with a Custom CA ---
+
+interface ServerRequestInit {
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+}
+
+let loadedCa: { path: string; pem: string } | undefined;
+
+// The PEM of `codeSuggestions.caCertificate`, trusted on top of the system roots (for a self-signed server)
+function customCa(): string | undefined {
+  const config = vscode.workspace.getConfiguration("codeSuggestions");
+  const caPath = config.get<string>("caCertificate", "").trim();
+  if (!caPath) {
+    return undefined;
+  }
+  if (loadedCa?.path !== caPath) {
+    loadedCa = { path: caPath, pem: fs.readFileSync(caPath, "utf-8") };
+  }
+  return loadedCa.pem;
+}
+
+/**
+ * `fetch` for the completion server. With `codeSuggestions.caCertificate` set, HTTPS requests go through
+ * Node's https module trusting that CA (fetch cannot take one), wrapped in a regular `Response`.
+ */
+export function serverFetch(url: string, init: ServerRequestInit): Promise<Response> {
+  const ca = url.startsWith("https:") ? customCa() : undefined;
+  if (!ca) {
+    return fetch(url, init);
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = https.request(url, {
+      method: init.method,
+      headers: init.headers,
+      ca: [...tls.rootCertificates, ca],
+      signal: init.signal
+    }, response => {
+      const headers = new Headers();
+      for (const [name, value] of Object.entries(response.headers)) {
+        if (value !== undefined) {
+          headers.set(name, Array.isArray(value) ? value.join(", ") : value);
+        }
+      }
+      resolve(new Response(Readable.toWeb(response) as ReadableStream, { status: response.statusCode, headers }));
+    });
+    request.on("error", reject);
+    request.end(init.body);
+  });
+}
+
+// --- Health Checks ---
+
+// A probe must not hang while the server is busy
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+let healthTimer: NodeJS.Timeout | undefined;
+
+// An unreachable server is reported once, not on every probe, until it answers again
+let unreachableWarned = false;
+
+function serverUrl(): string {
+  return vscode.workspace.getConfiguration("codeSuggestions").get("serverUrl") ?? "http://localhost:3000";
+}
+
+/**
+ * Asks the server's `/health` route whether it and its model backend are up.
+ * Returns what is wrong, or undefined when suggestions can be served.
+ */
+async function probeServerHealth(): Promise<string | undefined> {
+  const url = serverUrl();
+  try {
+    const response = await serverFetch(`${url}/health`, {
+      method: "GET",
+      headers: {},
+      signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS)
+    });
+    if (response.status === 503) {
+      const data = await response.json().catch(() => ({})) as { backend?: { url?: string; error?: string } };
+      return `the server at ${url} cannot reach its model backend${data.backend?.error ? ` (${data.backend.error})` : ""}`;
+    }
+    // Servers without a /health route still answer
+    if (!response.ok && response.status !== 404) {
+      return `the server at ${url} answered HTTP ${response.status}`;
+    }
+    return undefined;
+  } catch (err) {
+    const reason = err instanceof Error ? (err.cause instanceof Error ? err.cause.message : err.message) : String(err);
+    return `the server at ${url} is unreachable (${reason})`;
+  }
+}
+
+async function runHealthCheck(interactive: boolean): Promise<void> {
+  const problem = await probeServerHealth();
+  setServerProblem(problem);
+
+  if (!problem) {
+    if (unreachableWarned) {
+      log.info(`Server at ${serverUrl()} is reachable again`);
+    }
+    unreachableWarned = false;
+    if (interactive) {
+      vscode.window.showInformationMessage(`Code Suggestions: the server at ${serverUrl()} is up.`);
+    }
+    return;
+  }
+
+  log.warn(`Health check failed: ${problem}`);
+  if (interactive || !unreachableWarned) {
+    unreachableWarned = true;
+    vscode.window.showWarningMessage(`Code Suggestions: ${problem}.`, "Open Settings", "Show Output").then(choice => {
+      if (choice === "Open Settings") {
+        vscode.commands.executeCommand('workbench.action.openSettings', 'codeSuggestions.serverUrl');
+      } else if (choice === "Show Output") {
+        vscode.commands.executeCommand('codeSuggestions.showOutput');
+      }
+    });
+  }
+}
+
+/**
+ * Probes `/health` every `codeSuggestions.healthCheckIntervalSeconds` (0 turns it off) and right after
+ * the server URL changes. Nothing is probed in debug mode, where suggestions are mocked.
+ */
+export function registerHealthChecks(context: vscode.ExtensionContext): void {
+  const schedule = () => {
+    clearInterval(healthTimer);
+    healthTimer = undefined;
+
+    const config = vscode.workspace.getConfiguration("codeSuggestions");
+    const intervalSeconds = config.get("healthCheckIntervalSeconds", 60);
+    if (config.get("debugMode", false) || intervalSeconds <= 0) {
+      setServerProblem(undefined);
+      return;
+    }
+    unreachableWarned = false;
+    runHealthCheck(false);
+    healthTimer = setInterval(() => runHealthCheck(false), intervalSeconds * 1000);
+  };
+  schedule();
+
+  context.subscriptions.push(
+    { dispose: () => clearInterval(healthTimer) },
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (
+        e.affectsConfiguration("codeSuggestions.serverUrl") ||
+        e.affectsConfiguration("codeSuggestions.debugMode") ||
+        e.affectsConfiguration("codeSuggestions.healthCheckIntervalSeconds")
+      ) {
+        schedule();
+      }
+    }),
+    vscode.commands.registerCommand('codeSuggestions.checkServerHealth', () => runHealthCheck(true))
+  );
+}
@@ -0,0 +1,106 @@
+import { randomBytes } from 'crypto';
+import * as vscode from 'vscode';
+import { GroupStats, StatsSummary, SuggestionRecord, summarize } from './suggestionStats';
+
+// --- Stats Webview ---
+
+let panel: vscode.WebviewPanel | undefined;
+let loadRecords: (() => Promise<SuggestionRecord[]>) | undefined;
+
+/**
+ * Opens (or reveals) the dashboard of the locally recorded suggestions:
+ * acceptance rates, latency percentiles and the same per language, model/template and source.
+ */
+export function showStatsPanel(load: () => Promise<SuggestionRecord[]>): void {
+  loadRecords = load;
+  if (panel) {
+    panel.reveal();
+    refreshStatsPanel();
+    return;
+  }
+
+  panel = vscode.window.createWebviewPanel('codeSuggestions.stats', 'Code Suggestions: Stats', vscode.ViewColumn.Active, {
+    enableScripts: true // Only for the buttons below
+  });
+  panel.onDidDispose(() => panel = undefined);
+  panel.webview.onDidReceiveMessage((message: { command: string }) => {
+    if (message.command === 'export') {
+      vscode.commands.executeCommand('codeSuggestions.exportStats');
+    } else if (message.command === 'clear') {
+      vscode.commands.executeCommand('codeSuggestions.clearStats');
+    } else if (message.command === 'refresh') {
+      refreshStatsPanel();
+    }
+  });
+  refreshStatsPanel();
+}
+
+// Re-renders the open dashboard (called when a record was added or the statistics were cleared)
+export function refreshStatsPanel(): void {
+  if (!panel || !loadRecords) {
+    return;
+  }
+  const webview = panel.webview;
+  loadRecords().then(records => webview.html = renderHtml(summarize(records), records.length > 0));
+}
+
+// --- Rendering ---
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+function renderGroupTable(title: string, groups: GroupStats[]): string {
+  const rows = groups.map(group =>
+    `<tr><td>${escapeHtml(group.key)}</td><td>${group.shown}</td><td>${percent(group.acceptanceRate)}</td><td>${group.p50LatencyMs} ms</td></tr>`
+  ).join('');
+  return `<h2>${title}</h2>
+    <table><tr><th></th><th>Shown</th><th>Accepted</th><th>p50 latency</th></tr>${rows}</table>`;
+}
+
+function renderHtml(summary: StatsSummary, hasRecords: boolean): string {
+  const nonce = randomBytes(16).toString('hex');
+  const body = hasRecords
+    ? `<div class="cards">
+        <div><strong>${summary.shown}</strong>shown</div>
+        <div><strong>${percent(summary.acceptanceRate)}</strong>accepted (${summary.accepted} fully, ${summary.partiallyAccepted} partially)</div>
+        <div><strong>${percent(summary.acceptedCharsRate)}</strong>of suggested characters kept</div>
+        <div><strong>${summary.latencyMs.p50} / ${summary.latencyMs.p90} / ${summary.latencyMs.p99} ms</strong>latency p50 / p90 / p99</div>
+        <div><strong>${summary.averageContextChars}</strong>context characters on average</div>
+      </div>
+      ${renderGroupTable('By language', summary.byLanguage)}
+      ${renderGroupTable('By model (template)', summary.byModel)}
+      ${renderGroupTable('By source and trigger', summary.bySource)}`
+    : `<p>No suggestions recorded yet. Statistics are kept on this machine only (<code>codeSuggestions.analytics</code>).</p>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    .cards { display: flex; flex-wrap: wrap; gap: 12px; margin: 12px 0; }
+    .cards div { padding: 8px 12px; border: 1px solid var(--vscode-panel-border); min-width: 140px; }
+    .cards strong { display: block; font-size: 1.4em; }
+    table { border-collapse: collapse; margin-bottom: 16px; }
+    th, td { padding: 4px 12px; text-align: left; border-bottom: 1px solid var(--vscode-panel-border); }
+    button { margin-right: 8px; }
+  </style>
+</head>
+<body>
+  <h1>Suggestion Statistics</h1>
+  <button data-command="refresh">Refresh</button>
+  <button data-command="export">Export JSONL</button>
+  <button data-command="clear">Clear</button>
+  ${body}
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.querySelectorAll('button').forEach(button =>
+      button.addEventListener('click', () => vscode.postMessage({ command: button.dataset.command })));
+  </script>
+</body>
+</html>`;
+}
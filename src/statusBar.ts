@@ -0,0 +1,178 @@
+import * as vscode from 'vscode';
+import { log } from './outputChannel';
+
+// --- State ---
+
+interface StatusState {
+  mock: boolean;              // Debug mode: suggestions are mocked, nothing is sent
+  triggerMode: string;
+  activeRequests: number;
+  lastLatencyMs?: number;     // Of the last request that returned
+  lastError?: string;         // Of the last request, cleared by the next successful one
+  serverProblem?: string;     // From the /health probe, cleared when the server answers again
+}
+
+const state: StatusState = { mock: false, triggerMode: "manual", activeRequests: 0 };
+
+let item: vscode.StatusBarItem | undefined;
+
+/**
+ * Shows the status bar item (idle / requesting / error / mock, with the last latency) and registers
+ * the menu it opens: toggles for debug mode and trigger mode, the output channel and the request preview.
+ */
+export function registerStatusBar(context: vscode.ExtensionContext): void {
+  item = vscode.window.createStatusBarItem('codeSuggestions.status', vscode.StatusBarAlignment.Right, 100);
+  item.name = "Code Suggestions";
+  item.command = 'codeSuggestions.showStatusMenu';
+
+  const readSettings = () => {
+    const config = vscode.workspace.getConfiguration("codeSuggestions");
+    state.mock = config.get("debugMode", false);
+    state.triggerMode = config.get("triggerMode", "manual");
+    render();
+  };
+  readSettings();
+  item.show();
+
+  context.subscriptions.push(
+    item,
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration("codeSuggestions.debugMode") || e.affectsConfiguration("codeSuggestions.triggerMode")) {
+        readSettings();
+      }
+    }),
+    vscode.commands.registerCommand('codeSuggestions.showStatusMenu', showStatusMenu)
+  );
+}
+
+// --- Request Tracking ---
+
+export interface RequestStatus {
+  fail(message: string): void;
+  cancel(): void;             // Aborted (the user kept typing): neither a latency nor an error
+  end(): void;                // Call once, in a finally block
+}
+
+// Marks a request as running until its status is ended; the latency is recorded unless it failed or was cancelled
+export function requestStarted(): RequestStatus {
+  const startedAt = Date.now();
+  let outcome: "ok" | "failed" | "cancelled" = "ok";
+  let ended = false;
+  state.activeRequests++;
+  render();
+
+  return {
+    fail(message: string) {
+      outcome = "failed";
+      state.lastError = message;
+    },
+    cancel() {
+      outcome = "cancelled";
+    },
+    end() {
+      if (ended) {
+        return;
+      }
+      ended = true;
+      state.activeRequests--;
+      if (outcome === "ok") {
+        state.lastLatencyMs = Date.now() - startedAt;
+        state.lastError = undefined;
+      }
+      render();
+    }
+  };
+}
+
+// Set by the health probe (undefined once the server is reachable again)
+export function setServerProblem(problem: string | undefined): void {
+  state.serverProblem = problem;
+  render();
+}
+
+// --- Rendering ---
+
+function render(): void {
+  if (!item) {
+    return;
+  }
+  const latency = state.lastLatencyMs !== undefined ? ` ${state.lastLatencyMs} ms` : "";
+  const problem = state.lastError ?? state.serverProblem;
+
+  item.backgroundColor = undefined;
+  if (state.mock) {
+    item.text = "$(beaker) AI (mock)";
+  } else if (state.activeRequests > 0) {
+    item.text = "$(loading~spin) AI";
+  } else if (problem) {
+    item.text = "$(error) AI";
+    item.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+  } else {
+    item.text = `$(sparkle) AI${latency}`;
+  }
+
+  const tooltip = new vscode.MarkdownString(undefined, true);
+  tooltip.appendMarkdown("**Code Suggestions**\n\n");
+  if (state.mock) {
+    tooltip.appendMarkdown("Debug mode is on: suggestions are replayed from recorded fixtures, nothing is sent to the server.\n\n");
+  }
+  if (problem) {
+    tooltip.appendText(`Last problem: ${problem}`);
+    tooltip.appendMarkdown("\n\n");
+  }
+  tooltip.appendMarkdown(`Trigger mode: ${state.triggerMode}`);
+  if (state.lastLatencyMs !== undefined) {
+    tooltip.appendMarkdown(` · last request: ${state.lastLatencyMs} ms`);
+  }
+  item.tooltip = tooltip;
+}
+
+// --- Menu ---
+
+// Flips a setting where it is currently defined (workspace or user settings)
+async function updateSetting(name: string, value: unknown): Promise<void> {
+  const config = vscode.workspace.getConfiguration("codeSuggestions");
+  const inspected = config.inspect(name);
+  const target = inspected?.workspaceValue !== undefined
+    ? vscode.ConfigurationTarget.Workspace
+    : vscode.ConfigurationTarget.Global;
+  await config.update(name, value, target);
+}
+
+async function showStatusMenu(): Promise<void> {
+  const nextTriggerMode = state.triggerMode === "automatic" ? "manual" : "automatic";
+  const actions: (vscode.QuickPickItem & { run: () => Thenable<unknown> })[] = [
+    {
+      label: state.mock ? "$(debug-disconnect) Use the Live Server" : "$(beaker) Use Mock Suggestions (Debug Mode)",
+      description: state.mock ? "debug mode is on" : "debug mode is off",
+      run: () => updateSetting("debugMode", !state.mock)
+    },
+    {
+      label: `$(zap) Switch to ${nextTriggerMode} Trigger Mode`,
+      description: nextTriggerMode === "automatic" ? "suggest as you type" : "suggest on Alt+. only",
+      run: () => updateSetting("triggerMode", nextTriggerMode)
+    },
+    {
+      label: "$(output) Show Output",
+      run: () => vscode.commands.executeCommand('codeSuggestions.showOutput')
+    },
+    {
+      label: "$(eye) Preview What Will Be Sent",
+      run: () => vscode.commands.executeCommand('codeSuggestions.previewRequest')
+    },
+    {
+      label: "$(graph) Show Stats",
+      run: () => vscode.commands.executeCommand('codeSuggestions.showStats')
+    },
+    {
+      label: "$(pulse) Check Server Health",
+      run: () => vscode.commands.executeCommand('codeSuggestions.checkServerHealth')
+    }
+  ];
+
+  const picked = await vscode.window.showQuickPick(actions, { placeHolder: "Code Suggestions" });
+  if (picked) {
+    log.debug(`Status menu: ${picked.label}`);
+    await picked.run();
+  }
+}
@@ -0,0 +1,245 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { log } from './outputChannel';
+import { refreshStatsPanel, showStatsPanel } from './statsPanel';
+import { OfferAnchor, parseJsonl, SuggestionRecord, SuggestionSource, toJsonl, typedAheadIndices } from './suggestionStats';
+
+// --- Local Suggestion Analytics (never sent anywhere) ---
+
+const STATS_FILE_NAME = "suggestion-stats.jsonl";
+
+// Older records are dropped when the file grows past this
+const MAX_RECORDS = 10000;
+
+// Set as the command of every item: VS Code runs it after the item was accepted
+const ACCEPTED_COMMAND = 'codeSuggestions.suggestionAccepted';
+
+// What the provider knows about a suggestion when it hands it to VS Code
+export interface SuggestionInfo {
+  requestKey: string;         // Document, version and cursor offset (see requestKeyFor in extension.ts)
+  anchor: OfferAnchor;        // Document line and its text before the cursor, to recognize typing ahead
+  languageId: string;
+  model: string;
+  template?: string;
+  source: SuggestionSource;
+  trigger: "automatic" | "manual";
+  latencyMs: number;
+  contextChars?: number;
+}
+
+// Hooks VS Code calls on inline completion providers that implement them (not in the stable typings)
+export interface InlineCompletionLifecycleHooks {
+  handleDidShowCompletionItem?(item: vscode.InlineCompletionItem, updatedInsertText: string): void;
+  handleDidPartiallyAcceptCompletionItem?(item: vscode.InlineCompletionItem, info: number | { acceptedLength: number }): void;
+}
+
+// The suggestion currently offered, until it is accepted or replaced by the next one
+interface OfferedSuggestion {
+  id: number;
+  info: SuggestionInfo;
+  timestamp: string;
+  candidateChars: number[];
+  candidates: string[];       // The texts, to recognize their rest when the user types ahead (never stored)
+  shown: boolean;             // VS Code reported it as shown
+  shownIndex: number;         // The candidate on screen (the user can cycle through them)
+  partiallyAcceptedChars: number;
+}
+
+let statsFile: string | undefined;
+let records: SuggestionRecord[] | undefined;  // Loaded on first use
+let fileOperations: Promise<unknown> = Promise.resolve();  // Reads and writes of the stats file, one after the other
+let offered: OfferedSuggestion | undefined;
+let nextId = 1;
+
+// VS Code versions without the show hook never call it: every offered suggestion then counts as shown
+let showHookSupported = false;
+
+const offeredItems = new WeakMap<vscode.InlineCompletionItem, { suggestion: OfferedSuggestion; index: number }>();
+
+function isAnalyticsEnabled(): boolean {
+  const config = vscode.workspace.getConfiguration("codeSuggestions");
+  return config.get("analytics", true);
+}
+
+/**
+ * Registers the acceptance command and the stats commands. Records are appended to a JSONL file
+ * in the extension's global storage.
+ */
+export function registerAnalytics(context: vscode.ExtensionContext): void {
+  statsFile = path.join(context.globalStorageUri.fsPath, STATS_FILE_NAME);
+  serialized(() => fs.promises.mkdir(context.globalStorageUri.fsPath, { recursive: true }))
+    .catch(err => log.error("Failed to create the suggestion statistics folder:", err));
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ACCEPTED_COMMAND, (id: number, index: number) => {
+      if (offered?.id === id) {
+        finish(offered, index);
+        offered = undefined;
+      }
+    }),
+
+    vscode.commands.registerCommand('codeSuggestions.showStats', () => showStatsPanel(loadRecords)),
+
+    vscode.commands.registerCommand('codeSuggestions.exportStats', async () => {
+      const target = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.joinPath(vscode.workspace.workspaceFolders?.[0]?.uri ?? context.globalStorageUri, STATS_FILE_NAME),
+        filters: { "JSON Lines": ["jsonl"] }
+      });
+      if (target) {
+        const exported = await loadRecords();
+        await vscode.workspace.fs.writeFile(target, Buffer.from(toJsonl(exported), "utf-8"));
+        vscode.window.showInformationMessage(`Code Suggestions: exported ${exported.length} suggestion records.`);
+      }
+    }),
+
+    vscode.commands.registerCommand('codeSuggestions.clearStats', async () => {
+      const answer = await vscode.window.showWarningMessage(
+        'Delete all recorded suggestion statistics?', { modal: true }, 'Delete'
+      );
+      if (answer === 'Delete') {
+        offered = undefined;
+        await serialized(async () => {
+          records = [];
+          await fs.promises.rm(statsFile!, { force: true });
+        });
+        refreshStatsPanel();
+      }
+    }),
+
+    // The suggestion still on offer when the window closes was not accepted
+    { dispose: () => offered && finish(offered) }
+  );
+}
+
+// --- Tracking ---
+
+/**
+ * Attaches the acceptance command to the items and starts tracking them. The suggestion offered before
+ * is recorded as dismissed (or partially accepted), unless this is a refinement of it at the same position
+ * or its rest served again after the user typed ahead.
+ */
+export function trackSuggestions(info: SuggestionInfo, items: vscode.InlineCompletionItem[]): vscode.InlineCompletionItem[] {
+  if (!isAnalyticsEnabled() || items.length === 0) {
+    return items;
+  }
+
+  const candidates = items.map(item => typeof item.insertText === "string" ? item.insertText : item.insertText.value);
+  // Each item's candidate in the offered suggestion
+  let indices = candidates.map((_candidate, index) => index);
+  const typedAhead = offered && typedAheadIndices(offered.info.anchor, offered.candidates, info.anchor, candidates);
+
+  if (offered?.info.requestKey === info.requestKey && info.source === "stream") {
+    // A streamed suggestion re-triggered with more text: still the same suggestion
+    offered.candidateChars = candidates.map(candidate => candidate.length);
+    offered.candidates = candidates;
+  } else if (offered && typedAhead) {
+    // Typed the start of it: the rest is still the same suggestion (accepting it accepts all of it)
+    indices = typedAhead;
+  } else {
+    if (offered) {
+      finish(offered);
+    }
+    offered = {
+      id: nextId++,
+      info,
+      timestamp: new Date().toISOString(),
+      candidateChars: candidates.map(candidate => candidate.length),
+      candidates,
+      shown: false,
+      shownIndex: 0,
+      partiallyAcceptedChars: 0
+    };
+  }
+
+  const suggestion = offered;
+  items.forEach((item, itemIndex) => {
+    const index = indices[itemIndex];
+    item.command = { command: ACCEPTED_COMMAND, title: "Suggestion Accepted", arguments: [suggestion.id, index] };
+    offeredItems.set(item, { suggestion, index });
+  });
+  return items;
+}
+
+// From the provider's `handleDidShowCompletionItem`
+export function suggestionShown(item: vscode.InlineCompletionItem): void {
+  showHookSupported = true;
+  const entry = offeredItems.get(item);
+  if (entry) {
+    entry.suggestion.shown = true;
+    entry.suggestion.shownIndex = entry.index;
+  }
+}
+
+// From the provider's `handleDidPartiallyAcceptCompletionItem` (word by word or line by line)
+export function suggestionPartiallyAccepted(item: vscode.InlineCompletionItem, acceptedLength: number): void {
+  const entry = offeredItems.get(item);
+  if (entry) {
+    entry.suggestion.shownIndex = entry.index;
+    entry.suggestion.partiallyAcceptedChars = Math.max(entry.suggestion.partiallyAcceptedChars, acceptedLength);
+  }
+}
+
+// Records the suggestion's outcome: accepted when `acceptedIndex` is given, otherwise partially accepted or dismissed
+function finish(suggestion: OfferedSuggestion, acceptedIndex?: number): void {
+  if (showHookSupported && !suggestion.shown && acceptedIndex === undefined) {
+    return; // Replaced before VS Code ever displayed it
+  }
+  const index = acceptedIndex ?? suggestion.shownIndex;
+  const suggestionChars = suggestion.candidateChars[index] ?? 0;
+  const outcome = acceptedIndex !== undefined
+    ? "accepted"
+    : suggestion.partiallyAcceptedChars > 0 ? "partiallyAccepted" : "dismissed";
+
+  const { requestKey: _requestKey, ...info } = suggestion.info;
+  append({
+    ...info,
+    timestamp: suggestion.timestamp,
+    candidates: suggestion.candidateChars.length,
+    suggestionChars,
+    acceptedChars: outcome === "accepted" ? suggestionChars : Math.min(suggestion.partiallyAcceptedChars, suggestionChars),
+    outcome
+  });
+}
+
+// --- Storage ---
+
+// Runs after every read and write of the stats file queued before it
+function serialized<T>(operation: () => Promise<T>): Promise<T> {
+  const result = fileOperations.then(operation);
+  fileOperations = result.catch(() => undefined);
+  return result;
+}
+
+// Waits for the appends still in flight, so the file holds every record
+function loadRecords(): Promise<SuggestionRecord[]> {
+  return serialized(async () => {
+    if (records) {
+      return records;
+    }
+    try {
+      const loaded = parseJsonl(await fs.promises.readFile(statsFile!, "utf-8"));
+      records = loaded.slice(-MAX_RECORDS);
+      if (records.length < loaded.length) {
+        await fs.promises.writeFile(statsFile!, toJsonl(records));
+      }
+    } catch {
+      records = []; // No statistics recorded yet
+    }
+    return records;
+  });
+}
+
+function append(record: SuggestionRecord): void {
+  if (!statsFile) {
+    return;
+  }
+  log.debug(`Suggestion ${record.outcome} (${record.languageId}, ${record.latencyMs} ms, ${record.source})`);
+
+  serialized(async () => {
+    records?.push(record);
+    await fs.promises.appendFile(statsFile!, toJsonl([record]));
+  })
+    .then(() => refreshStatsPanel())
+    .catch(err => log.error("Failed to record suggestion statistics:", err));
+}
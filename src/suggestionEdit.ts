@@ -0,0 +1,18 @@
+// --- Suggestion Edits ---
+
+// A suggestion as the server sends it: insert `insertText` at the cursor,
+// replacing the next `replace` characters (closing brackets or quotes the suggestion repeats)
+export interface SuggestionEdit {
+  insertText: string;
+  replace: number;
+}
+
+/**
+ * The part of each suggestion that is still ahead of the cursor after the user typed `typed`
+ * (only suggestions starting with it). The characters after the cursor did not move, so `replace` stays.
+ */
+export function remainingAfterTyped(edits: SuggestionEdit[], typed: string): SuggestionEdit[] {
+  return edits
+    .filter(edit => edit.insertText.startsWith(typed))
+    .map(edit => ({ insertText: edit.insertText.substring(typed.length), replace: edit.replace }));
+}
@@ -0,0 +1,152 @@
+// --- Types ---
+
+export type SuggestionOutcome = "accepted" | "partiallyAccepted" | "dismissed";
+
+// Where the shown suggestion came from
+export type SuggestionSource = "server" | "stream" | "cache" | "inflight" | "mock";
+
+/**
+ * One shown suggestion (all candidates of one request), stored as a line of JSONL.
+ * Only sizes and metadata are kept, never the code itself.
+ */
+export interface SuggestionRecord {
+  timestamp: string;          // ISO time the suggestion was shown
+  languageId: string;
+  model: string;
+  template?: string;          // Prompt template reported by the server
+  source: SuggestionSource;
+  trigger: "automatic" | "manual";
+  latencyMs: number;          // From sending the request to the suggestion being ready
+  contextChars?: number;      // Size of the prompt context (unknown for cache hits)
+  candidates: number;
+  suggestionChars: number;    // Of the candidate that was accepted (or the first one)
+  acceptedChars: number;      // The whole suggestion when accepted, the accepted part when partially accepted
+  outcome: SuggestionOutcome;
+}
+
+export interface GroupStats {
+  key: string;
+  shown: number;
+  acceptanceRate: number;     // Accepted or partially accepted, 0..1
+  p50LatencyMs: number;
+}
+
+export interface StatsSummary {
+  shown: number;
+  accepted: number;
+  partiallyAccepted: number;
+  dismissed: number;
+  acceptanceRate: number;
+  acceptedCharsRate: number;  // Share of the shown characters that ended up in the document
+  latencyMs: { p50: number; p90: number; p99: number };
+  averageContextChars: number;
+  byLanguage: GroupStats[];
+  byModel: GroupStats[];      // Model and template
+  bySource: GroupStats[];
+}
+
+// --- Statistics ---
+
+// Nearest-rank percentile (p in 0..100) of unsorted values, 0 for none
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+function isAccepted(record: SuggestionRecord): boolean {
+  return record.outcome !== "dismissed";
+}
+
+// Most shown first
+function groupBy(records: SuggestionRecord[], keyOf: (record: SuggestionRecord) => string): GroupStats[] {
+  const groups = new Map<string, SuggestionRecord[]>();
+  for (const record of records) {
+    const key = keyOf(record);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+  return Array.from(groups, ([key, group]) => ({
+    key,
+    shown: group.length,
+    acceptanceRate: group.filter(isAccepted).length / group.length,
+    p50LatencyMs: percentile(group.map(record => record.latencyMs), 50)
+  })).sort((a, b) => b.shown - a.shown);
+}
+
+export function summarize(records: SuggestionRecord[]): StatsSummary {
+  const count = (outcome: SuggestionOutcome) => records.filter(record => record.outcome === outcome).length;
+  const shownChars = records.reduce((sum, record) => sum + record.suggestionChars, 0);
+  const acceptedChars = records.reduce((sum, record) => sum + record.acceptedChars, 0);
+  // Cache hits are served locally, their latency would hide the server's
+  const latencies = records.filter(record => record.source !== "cache").map(record => record.latencyMs);
+  const contextSizes = records.flatMap(record => record.contextChars !== undefined ? [record.contextChars] : []);
+
+  return {
+    shown: records.length,
+    accepted: count("accepted"),
+    partiallyAccepted: count("partiallyAccepted"),
+    dismissed: count("dismissed"),
+    acceptanceRate: records.length ? records.filter(isAccepted).length / records.length : 0,
+    acceptedCharsRate: shownChars ? acceptedChars / shownChars : 0,
+    latencyMs: { p50: percentile(latencies, 50), p90: percentile(latencies, 90), p99: percentile(latencies, 99) },
+    averageContextChars: contextSizes.length
+      ? Math.round(contextSizes.reduce((sum, size) => sum + size, 0) / contextSizes.length)
+      : 0,
+    byLanguage: groupBy(records, record => record.languageId),
+    byModel: groupBy(records, record => record.template ? `${record.model} (${record.template})` : record.model),
+    bySource: groupBy(records, record => `${record.source}, ${record.trigger}`)
+  };
+}
+
+// --- Typing Ahead ---
+
+// Where a suggestion was offered: the document line and its text before the cursor
+export interface OfferAnchor {
+  line: string;               // Document and line number
+  textBefore: string;
+}
+
+/**
+ * When the user types the start of an offered suggestion, the cache or the in-flight request serves its
+ * rest again. Maps each candidate served at `anchor` to the offered candidate it is the rest of, or returns
+ * undefined when this is not the same suggestion (another line, other text typed, other candidates).
+ */
+export function typedAheadIndices(
+  offeredAnchor: OfferAnchor,
+  offeredCandidates: string[],
+  anchor: OfferAnchor,
+  candidates: string[]
+): number[] | undefined {
+  if (anchor.line !== offeredAnchor.line || !anchor.textBefore.startsWith(offeredAnchor.textBefore)) {
+    return undefined;
+  }
+  const typed = anchor.textBefore.substring(offeredAnchor.textBefore.length);
+  const indices = candidates.map(candidate =>
+    offeredCandidates.findIndex(offered => offered.startsWith(typed) && offered.substring(typed.length) === candidate)
+  );
+  return indices.includes(-1) ? undefined : indices;
+}
+
+// --- JSONL ---
+
+export function toJsonl(records: SuggestionRecord[]): string {
+  return records.map(record => JSON.stringify(record) + "\n").join("");
+}
+
+// Skips lines that are not valid records (e.g. cut off by a crash while appending)
+export function parseJsonl(text: string): SuggestionRecord[] {
+  return text.split("\n").flatMap(line => {
+    if (!line.trim()) {
+      return [];
+    }
+    try {
+      const record = JSON.parse(line) as SuggestionRecord;
+      return typeof record.outcome === "string" && typeof record.latencyMs === "number" ? [record] : [];
+    } catch {
+      return [];
+    }
+  });
+}
@@ -0,0 +1,247 @@
+import type * as ts from 'typescript';
+import { lineCommentFor } from './languageSupport';
+import { SuggestionEdit } from './suggestionEdit';
+
+// --- Types ---
+
+// The document around the cursor, as it was when the suggestion was requested
+export interface ValidationContext {
+  textBefore: string;
+  textAfter: string;
+  languageId: string;
+  fileName: string;
+}
+
+// Syntax problems of a text: a suggestion may not add any, nor leave one where it ends
+export interface SyntaxCheck {
+  errorCount: number;
+  errorOffsets: number[];  // Where each error starts in the checked text
+  firstError?: string;
+}
+
+// --- Constants ---
+
+// Candidate cut points tried (the whole suggestion first, then line ends from the last one back)
+const MAX_ATTEMPTS = 12;
+
+const TYPESCRIPT_KINDS: Record<string, 'TS' | 'TSX' | 'JS' | 'JSX'> = {
+  typescript: 'TS',
+  typescriptreact: 'TSX',
+  javascript: 'JS',
+  javascriptreact: 'JSX'
+};
+
+// Languages where indentation is syntax
+const INDENTATION_LANGUAGES = ['python'];
+
+const OPENERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSERS = new Set([')', ']', '}']);
+
+// --- TypeScript / JavaScript ---
+
+// Loaded on first use, so activating the extension does not pay for the compiler
+let typescript: Promise<typeof ts> | undefined;
+
+async function checkWithTypeScript(text: string, fileName: string, scriptKind: keyof typeof ts.ScriptKind): Promise<SyntaxCheck> {
+  const compiler = await (typescript ??= import('typescript'));
+  const sourceFile = compiler.createSourceFile(fileName, text, compiler.ScriptTarget.Latest, false, compiler.ScriptKind[scriptKind]);
+
+  // Only parsing, no type checking: a program of just this file, without libraries or imports
+  const host: ts.CompilerHost = {
+    getSourceFile: () => sourceFile,
+    fileExists: name => name === sourceFile.fileName,
+    readFile: () => undefined,
+    writeFile: () => { /* Nothing is emitted */ },
+    getDefaultLibFileName: () => 'lib.d.ts',
+    getCurrentDirectory: () => '',
+    getCanonicalFileName: name => name,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n'
+  };
+  const program = compiler.createProgram([sourceFile.fileName], { noLib: true, noResolve: true, allowJs: true }, host);
+  const diagnostics = program.getSyntacticDiagnostics(sourceFile);
+  return {
+    errorCount: diagnostics.length,
+    errorOffsets: diagnostics.map(diagnostic => diagnostic.start ?? text.length),
+    firstError: diagnostics[0] && compiler.flattenDiagnosticMessageText(diagnostics[0].messageText, ' ')
+  };
+}
+
+// --- Other Languages: Brackets and Indentation ---
+
+/**
+ * Counts mismatched and unclosed brackets, skipping strings and line comments.
+ * A light scanner: block comments and language-specific string forms are not understood.
+ */
+function checkBrackets(text: string, languageId: string): SyntaxCheck {
+  const lineComment = lineCommentFor(languageId);
+  const stack: string[] = [];
+  const errorOffsets: number[] = [];
+  let firstError: string | undefined;
+  let quote: string | undefined;
+
+  const report = (offset: number, message: string) => {
+    errorOffsets.push(offset);
+    firstError ??= message;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote || (char === '\n' && quote !== '`')) {
+        quote = undefined; // Unterminated strings end at the line end
+      }
+      continue;
+    }
+
+    if (lineComment && text.startsWith(lineComment, i)) {
+      const lineEnd = text.indexOf('\n', i);
+      i = lineEnd === -1 ? text.length : lineEnd;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if (OPENERS[char]) {
+      stack.push(OPENERS[char]);
+    } else if (CLOSERS.has(char)) {
+      if (stack[stack.length - 1] === char) {
+        stack.pop();
+      } else {
+        report(i, `unexpected "${char}"`);
+      }
+    }
+  }
+
+  for (const expected of stack) {
+    report(text.length, `missing "${expected}"`);
+  }
+  return { errorCount: errorOffsets.length, errorOffsets, firstError };
+}
+
+/**
+ * Python-style indentation: a line may only be indented deeper than the previous code line
+ * when that line opens a block (ends with ":") or leaves a bracket open.
+ */
+function checkIndentation(text: string): SyntaxCheck {
+  const errorOffsets: number[] = [];
+  let firstError: string | undefined;
+  let previous: { indent: number; opensBlock: boolean } | undefined;
+  let depth = 0;
+  let lineStart = 0;
+
+  text.split('\n').forEach((line, index) => {
+    const offset = lineStart;
+    lineStart += line.length + 1;
+
+    const code = line.replace(/#.*$/, '').trimEnd();
+    if (code.trim().length === 0) {
+      return;
+    }
+    const indent = line.length - line.trimStart().length;
+
+    if (previous && depth === 0 && indent > previous.indent && !previous.opensBlock) {
+      errorOffsets.push(offset + indent);
+      firstError ??= `unexpected indent on line ${index + 1}`;
+    }
+
+    for (const char of code) {
+      if (OPENERS[char]) {
+        depth++;
+      } else if (CLOSERS.has(char)) {
+        depth = Math.max(0, depth - 1);
+      }
+    }
+    if (depth === 0) {
+      previous = { indent, opensBlock: /[:\\]$/.test(code) };
+    }
+  });
+  return { errorCount: errorOffsets.length, errorOffsets, firstError };
+}
+
+// --- Validation ---
+
+// The syntax errors of a whole text in the context's language (also the evaluation harness's "compiles" check)
+export async function checkSyntax(text: string, context: Pick<ValidationContext, 'languageId' | 'fileName'>): Promise<SyntaxCheck> {
+  const scriptKind = TYPESCRIPT_KINDS[context.languageId];
+  if (scriptKind !== undefined) {
+    return checkWithTypeScript(text, context.fileName, scriptKind);
+  }
+
+  const brackets = checkBrackets(text, context.languageId);
+  if (!INDENTATION_LANGUAGES.includes(context.languageId)) {
+    return brackets;
+  }
+  const indentation = checkIndentation(text);
+  return {
+    errorCount: brackets.errorCount + indentation.errorCount,
+    errorOffsets: [...brackets.errorOffsets, ...indentation.errorOffsets],
+    firstError: brackets.firstError ?? indentation.firstError
+  };
+}
+
+// Where the suggestion may be cut: its full length, then every line end from the last one back
+function cutPoints(text: string): number[] {
+  const points = [text.length];
+  for (let index = text.lastIndexOf('\n'); index > 0 && points.length < MAX_ATTEMPTS; index = text.lastIndexOf('\n', index - 1)) {
+    points.push(index);
+  }
+  return points;
+}
+
+/**
+ * Splices the suggestion into the document text and checks it: TypeScript's parser for TS/JS,
+ * a bracket (and, for Python, indentation) checker otherwise. Returns the longest prefix of the suggestion
+ * that adds no syntax errors compared to the document without it and has none inside it or right where
+ * it ends (e.g. a dangling operator), or an empty suggestion.
+ * A leftover markdown fence always ends the suggestion. `log` is told why a suggestion was cut or dropped.
+ */
+export async function validateSuggestion(
+  edit: SuggestionEdit,
+  context: ValidationContext,
+  log: (message: string) => void
+): Promise<SuggestionEdit> {
+  let text = edit.insertText;
+
+  // 1. Markdown fences are never code
+  const fence = text.search(/^[ \t]*```/m);
+  if (fence !== -1) {
+    log(`[AI] Suggestion cut at a markdown fence`);
+    text = text.substring(0, fence).trimEnd();
+  }
+  if (!text.trim()) {
+    return { insertText: '', replace: 0 };
+  }
+
+  // 2. The document as it is: errors the user is in the middle of typing do not count against the suggestion
+  const baseline = await checkSyntax(context.textBefore + context.textAfter, context);
+
+  // 3. The longest prefix that adds no new errors. Only the whole suggestion replaces
+  // the characters after the cursor: a cut one may have lost the brackets it repeats.
+  let rejection: string | undefined;
+  for (const point of cutPoints(text)) {
+    const candidate = text.substring(0, point);
+    if (!candidate.trim()) {
+      break;
+    }
+    const replace = point === text.length && fence === -1 ? edit.replace : 0;
+    const after = context.textAfter.substring(replace);
+    const check = await checkSyntax(context.textBefore + candidate + after, context);
+
+    // The suggestion itself and the first token after it (where a half-finished statement shows up)
+    const regionStart = context.textBefore.length;
+    const regionEnd = regionStart + candidate.length + (after.length - after.trimStart().length);
+    const errorInRegion = check.errorOffsets.find(offset => offset >= regionStart && offset <= regionEnd);
+
+    if (check.errorCount <= baseline.errorCount && errorInRegion === undefined) {
+      if (point < edit.insertText.length) {
+        log(`[AI] Suggestion trimmed to ${candidate.split('\n').length} line(s): ${rejection ?? 'markdown fence'}`);
+      }
+      return { insertText: candidate, replace };
+    }
+    rejection ??= check.firstError ?? `${check.errorCount - baseline.errorCount} new syntax error(s)`;
+  }
+
+  log(`[AI] Suggestion dropped: ${rejection ?? 'empty'}`);
+  return { insertText: '', replace: 0 };
+}
@@ -0,0 +1,134 @@
+import * as assert from 'assert';
+import { createHash } from 'crypto';
+
+import { createApp } from '../server/app';
+import { loadServerConfig } from '../server/config';
+import { createLogger } from '../server/logger';
+import { createCompletionService } from '../server/server-file';
+import { listen } from './testServers';
+
+suite('Server Authentication Test Suite', () => {
+	const closers: (() => Promise<void>)[] = [];
+	let serverUrl = '';
+
+	setup(async () => {
+		const backend = await listen((_req, res) => res.end(JSON.stringify({ response: 'a + b;', done: true, models: [] })));
+		closers.push(backend.close);
+
+		const config = loadServerConfig({
+			BACKEND_URL: backend.url,
+			API_KEYS: 'alice:alice-key',
+			RATE_LIMIT_PER_MINUTE: '2'
+		});
+		config.auth.keys.push({ user: 'bob', keySha256: createHash('sha256').update('bob-key').digest('hex') });
+
+		const logger = createLogger('error', () => { /* Quiet */ });
+		const server = await listen(createApp(createCompletionService(config, logger), config, logger));
+		closers.push(server.close);
+		serverUrl = server.url;
+	});
+
+	teardown(async () => {
+		while (closers.length > 0) {
+			await closers.pop()!();
+		}
+	});
+
+	const complete = (headers: Record<string, string>) => fetch(`${serverUrl}/complete`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json', ...headers },
+		body: JSON.stringify({ context_text: 'const sum = <|CURSOR|>' })
+	});
+
+	test('Requests without a known API key are rejected with 401', async () => {
+		const missing = await complete({});
+		assert.strictEqual(missing.status, 401);
+		assert.strictEqual(missing.headers.get('WWW-Authenticate'), 'Bearer');
+		assert.strictEqual((await missing.json() as any).status, 'unauthorized');
+
+		assert.strictEqual((await complete({ Authorization: 'Bearer wrong' })).status, 401);
+		assert.strictEqual((await fetch(`${serverUrl}/models`)).status, 401);
+
+		// Probes stay open
+		assert.notStrictEqual((await fetch(`${serverUrl}/health`)).status, 401);
+	});
+
+	test('Plain and hashed keys are accepted', async () => {
+		assert.strictEqual((await complete({ Authorization: 'Bearer alice-key' })).status, 200);
+		assert.strictEqual((await complete({ 'X-API-Key': 'bob-key' })).status, 200);
+	});
+
+	test('Each key has its own requests-per-minute limit', async () => {
+		assert.strictEqual((await complete({ Authorization: 'Bearer alice-key' })).status, 200);
+		assert.strictEqual((await complete({ Authorization: 'Bearer alice-key' })).status, 200);
+
+		const limited = await complete({ Authorization: 'Bearer alice-key' });
+		assert.strictEqual(limited.status, 429);
+		assert.ok(Number(limited.headers.get('Retry-After')) > 0);
+		assert.strictEqual((await limited.json() as any).status, 'rate-limited');
+
+		// Another user is not affected
+		assert.strictEqual((await complete({ Authorization: 'Bearer bob-key' })).status, 200);
+	});
+
+	test('A client id only supersedes requests of the same user', async () => {
+		const slowBackend = await listen((_req, res) => {
+			setTimeout(() => res.end(JSON.stringify({ response: 'a + b;', done: true })), 200);
+		});
+		closers.push(slowBackend.close);
+		const config = loadServerConfig({ BACKEND_URL: slowBackend.url, API_KEYS: 'alice:alice-key,bob:bob-key' });
+		const logger = createLogger('error', () => { /* Quiet */ });
+		const server = await listen(createApp(createCompletionService(config, logger), config, logger));
+		closers.push(server.close);
+
+		const completeAs = (key: string) => fetch(`${server.url}/complete`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${key}`, 'X-Client-Id': 'window-1' },
+			body: JSON.stringify({ context_text: 'const sum = <|CURSOR|>' })
+		});
+		const alice = completeAs('alice-key');
+		await new Promise(resolve => setTimeout(resolve, 50));
+		const bob = completeAs('bob-key');
+
+		assert.strictEqual((await alice).status, 200);
+		assert.strictEqual((await bob).status, 200);
+		assert.strictEqual((await (await alice).json() as any).status, 'ok');
+	});
+
+	test('A client re-triggering with requests open supersedes its own instead of hitting the concurrency limit', async () => {
+		const slowBackend = await listen((_req, res) => {
+			setTimeout(() => res.end(JSON.stringify({ response: 'a + b;', done: true })), 200);
+		});
+		closers.push(slowBackend.close);
+		const config = loadServerConfig({ BACKEND_URL: slowBackend.url, API_KEYS: 'alice:alice-key' });
+		const logger = createLogger('error', () => { /* Quiet */ });
+		const server = await listen(createApp(createCompletionService(config, logger), config, logger));
+		closers.push(server.close);
+
+		const post = (route: string, clientId: string, body: object) => fetch(`${server.url}${route}`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json', Authorization: 'Bearer alice-key', 'X-Client-Id': clientId },
+			body: JSON.stringify(body)
+		});
+		const completeFrom = (clientId: string) => post('/complete', clientId, { context_text: 'const sum = <|CURSOR|>' });
+		const pause = () => new Promise(resolve => setTimeout(resolve, 20));
+
+		// One window: an edit and a suggestion open (the default limit of 2), then the user keeps typing
+		const edit = post('/edit', 'window-1', { instruction: 'Rename', selection: 'const a = 1;' });
+		await pause();
+		const triggers = [];
+		for (let i = 0; i < 3; i++) {
+			triggers.push(completeFrom('window-1'));
+			await pause();
+		}
+		const other = completeFrom('window-2');
+		await pause();
+
+		// A third window of the same key is over the limit of 2 concurrent clients
+		assert.strictEqual((await completeFrom('window-3')).status, 429);
+
+		assert.deepStrictEqual(await Promise.all(triggers.map(async trigger => (await trigger).status)), [409, 409, 200]);
+		assert.strictEqual((await edit).status, 200);
+		assert.strictEqual((await other).status, 200);
+	});
+});
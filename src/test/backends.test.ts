@@ -0,0 +1,179 @@
+import * as assert from 'assert';
+
+import { BackendConfig, BackendPrompt, createBackend, loadBackendConfig } from '../server/backends';
+import { MockServer, startMockServer } from './testServers';
+
+function configFor(kind: BackendConfig['kind'], url: string, extra: Partial<BackendConfig> = {}): BackendConfig {
+	return {
+		...loadBackendConfig({ BACKEND_KIND: kind }),
+		url,
+		model: 'test-model',
+		...extra
+	};
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string> {
+	let text = '';
+	for await (const chunk of stream) {
+		text += chunk;
+	}
+	return text;
+}
+
+const request: BackendPrompt = {
+	prompt: '<|fim_prefix|>const a = <|fim_suffix|>;<|fim_middle|>',
+	prefix: 'const a = ',
+	suffix: ';',
+	stop: ['<|im_end|>'],
+	raw: true
+};
+
+suite('Backend Adapters Test Suite', () => {
+	let mock: MockServer | undefined;
+
+	teardown(async () => {
+		await mock?.close();
+		mock = undefined;
+	});
+
+	test('Ollama sends /api/generate with options and reads the response', async () => {
+		mock = await startMockServer((_body, res) => {
+			res.end(JSON.stringify({ response: '42', done: true }));
+		});
+		const backend = createBackend(configFor('ollama', mock.url));
+
+		const text = await backend.generate(request, new AbortController().signal);
+
+		assert.strictEqual(text, '42');
+		assert.strictEqual(mock.lastPath, '/api/generate');
+		assert.strictEqual(mock.lastBody.model, 'test-model');
+		assert.strictEqual(mock.lastBody.stream, false);
+		assert.strictEqual(mock.lastBody.options.num_ctx, 4096);
+		assert.strictEqual(mock.lastBody.options.repeat_penalty, 1.15);
+		assert.deepStrictEqual(mock.lastBody.options.stop, ['<|im_end|>']);
+		assert.strictEqual(mock.lastBody.raw, true);
+	});
+
+	test('Ollama streams NDJSON chunks', async () => {
+		mock = await startMockServer((_body, res) => {
+			res.write(JSON.stringify({ response: '4', done: false }) + '\n');
+			res.write(JSON.stringify({ response: '2', done: false }) + '\n');
+			res.end(JSON.stringify({ response: '', done: true }) + '\n');
+		});
+		const backend = createBackend(configFor('ollama', mock.url));
+
+		assert.strictEqual(await collect(backend.stream(request, new AbortController().signal)), '42');
+		assert.strictEqual(mock.lastBody.stream, true);
+	});
+
+	test('OpenAI-compatible sends /v1/completions with the API key', async () => {
+		mock = await startMockServer((_body, res) => {
+			res.end(JSON.stringify({ choices: [{ text: '42' }] }));
+		});
+		const backend = createBackend(configFor('openai', mock.url, { apiKey: 'secret' }));
+
+		const text = await backend.generate(request, new AbortController().signal);
+
+		assert.strictEqual(text, '42');
+		assert.strictEqual(mock.lastPath, '/v1/completions');
+		assert.strictEqual(mock.lastHeaders?.authorization, 'Bearer secret');
+		assert.strictEqual(mock.lastBody.max_tokens, 1000);
+		assert.strictEqual(mock.lastBody.prompt, request.prompt);
+		assert.ok(!('frequency_penalty' in mock.lastBody), 'the repeat penalty has no OpenAI equivalent');
+	});
+
+	test('OpenAI-compatible streams Server-Sent Events until [DONE]', async () => {
+		mock = await startMockServer((_body, res) => {
+			res.write(`data: ${JSON.stringify({ choices: [{ text: '4' }] })}\n\n`);
+			res.write(`data: ${JSON.stringify({ choices: [{ text: '2' }] })}\n\n`);
+			res.end('data: [DONE]\n\n');
+		});
+		const backend = createBackend(configFor('openai', mock.url));
+
+		assert.strictEqual(await collect(backend.stream(request, new AbortController().signal)), '42');
+	});
+
+	test('llama.cpp uses /completion with the templated prompt', async () => {
+		mock = await startMockServer((_body, res) => {
+			res.end(JSON.stringify({ content: '42' }));
+		});
+		const backend = createBackend(configFor('llamacpp', mock.url));
+
+		assert.strictEqual(await backend.generate(request, new AbortController().signal), '42');
+		assert.strictEqual(mock.lastPath, '/completion');
+		assert.strictEqual(mock.lastBody.prompt, request.prompt);
+		assert.strictEqual(mock.lastBody.n_predict, 1000);
+	});
+
+	test('llama.cpp uses /infill with the raw prefix and suffix and streams SSE', async () => {
+		mock = await startMockServer((_body, res) => {
+			res.write(`data: ${JSON.stringify({ content: '4', stop: false })}\n\n`);
+			res.end(`data: ${JSON.stringify({ content: '2', stop: true })}\n\n`);
+		});
+		const backend = createBackend(configFor('llamacpp', mock.url, { useInfill: true }));
+
+		assert.strictEqual(await collect(backend.stream(request, new AbortController().signal)), '42');
+		assert.strictEqual(mock.lastPath, '/infill');
+		assert.strictEqual(mock.lastBody.input_prefix, 'const a = ');
+		assert.strictEqual(mock.lastBody.input_suffix, ';');
+		assert.strictEqual(mock.lastBody.prompt, undefined);
+	});
+
+	test('OpenAI-compatible asks for n candidates with log-probabilities', async () => {
+		mock = await startMockServer((_body, res) => {
+			res.end(JSON.stringify({
+				choices: [
+					{ text: 'a', logprobs: { token_logprobs: [-1, -3] } },
+					{ text: 'b', logprobs: { token_logprobs: [-0.5, null] } }
+				]
+			}));
+		});
+		const backend = createBackend(configFor('openai', mock.url));
+
+		const candidates = await backend.generateCandidates(request, 2, new AbortController().signal);
+
+		assert.deepStrictEqual(candidates, [{ text: 'a', meanLogprob: -2 }, { text: 'b', meanLogprob: -0.5 }]);
+		assert.strictEqual(mock.lastBody.n, 2);
+		assert.strictEqual(mock.lastBody.logprobs, 1);
+	});
+
+	test('Ollama samples candidates one by one at rising temperatures', async () => {
+		const temperatures: number[] = [];
+		mock = await startMockServer((body, res) => {
+			temperatures.push(body.options.temperature);
+			res.end(JSON.stringify({ response: `t${temperatures.length}`, done: true }));
+		});
+		const backend = createBackend(configFor('ollama', mock.url));
+
+		const candidates = await backend.generateCandidates(request, 3, new AbortController().signal);
+
+		assert.deepStrictEqual(candidates.map(candidate => candidate.text), ['t1', 't2', 't3']);
+		assert.strictEqual(candidates[0].meanLogprob, undefined);
+		assert.deepStrictEqual(temperatures.map(t => Math.round(t * 10) / 10), [0.2, 0.5, 0.8]);
+	});
+
+	test('HTTP errors are reported', async () => {
+		mock = await startMockServer((_body, res) => {
+			res.statusCode = 500;
+			res.end('{}');
+		});
+		const backend = createBackend(configFor('ollama', mock.url));
+
+		await assert.rejects(backend.generate(request, new AbortController().signal), /HTTP 500/);
+	});
+
+	test('Configuration is read from environment variables', () => {
+		const config = loadBackendConfig({
+			BACKEND_KIND: 'llamacpp',
+			BACKEND_URL: 'http://gpu-box:8080/',
+			BACKEND_TEMPERATURE: '0.5',
+			BACKEND_STOP: '["\\n\\n"]'
+		});
+
+		assert.strictEqual(config.kind, 'llamacpp');
+		assert.strictEqual(config.url, 'http://gpu-box:8080');
+		assert.strictEqual(config.options.temperature, 0.5);
+		assert.deepStrictEqual(config.options.stop, ['\n\n']);
+		assert.throws(() => loadBackendConfig({ BACKEND_KIND: 'unknown' }), /Unknown backend kind/);
+	});
+});
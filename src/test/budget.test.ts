@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+
+import { createTokenEstimator, fitToBudget } from '../server/budget';
+
+// One token per character keeps the arithmetic in these tests obvious
+const estimateTokens = (text: string) => text.length;
+
+suite('Context Budget Test Suite', () => {
+	test('Everything is kept when it fits', () => {
+		const result = fitToBudget({
+			prefix: 'import { a } from "a";\nfunction f() {\n  return ',
+			suffix: ';\n}\n',
+			contextFiles: [{ path: 'b.ts', content: 'export const b = 1;' }],
+			budgetTokens: 1000,
+			estimateTokens
+		});
+
+		assert.strictEqual(result.prefix, 'import { a } from "a";\nfunction f() {\n  return ');
+		assert.strictEqual(result.suffix, ';\n}\n');
+		assert.deepStrictEqual(result.contextFiles, [{ path: 'b.ts', content: 'export const b = 1;' }]);
+	});
+
+	test('Trimming snaps to whole lines and keeps the lines closest to the cursor', () => {
+		const prefix = ['line 1', 'line 2', 'line 3', 'line 4', 'cur'].join('\n');
+		const result = fitToBudget({
+			prefix,
+			suffix: 'sor\nnext 1\nnext 2',
+			contextFiles: [],
+			budgetTokens: 6 + 7 + 7 + 7, // cursor line, two prefix lines, one suffix line
+			estimateTokens
+		});
+
+		assert.strictEqual(result.prefix, 'line 3\nline 4\ncur');
+		assert.strictEqual(result.suffix, 'sor\nnext 1');
+	});
+
+	test('Imports come after the enclosing scope and before pinned files', () => {
+		const result = fitToBudget({
+			prefix: 'import x;\nbody 1\nbody 2\n',
+			suffix: '',
+			contextFiles: [{ path: 'p.ts', content: 'pinned' }],
+			budgetTokens: 7 + 7 + 10,
+			estimateTokens
+		});
+
+		assert.strictEqual(result.prefix, 'import x;\nbody 1\nbody 2\n');
+		assert.deepStrictEqual(result.contextFiles, []);
+	});
+
+	test('Pinned files are cut at a line boundary in priority order', () => {
+		const result = fitToBudget({
+			prefix: '',
+			suffix: '',
+			contextFiles: [
+				{ path: 'a.ts', content: 'a1\na2\na3' },
+				{ path: 'b.ts', content: 'b1' }
+			],
+			budgetTokens: 21 + 3 + 3, // header of a.ts and two of its lines
+			estimateTokens
+		});
+
+		assert.deepStrictEqual(result.contextFiles, [{ path: 'a.ts', content: 'a1\na2' }]);
+	});
+
+	test('The estimator uses the characters per token of the template', () => {
+		const estimate = createTokenEstimator(4);
+		assert.strictEqual(estimate('abcdefgh'), 2);
+		// Indentation runs count as a single character
+		assert.strictEqual(estimate('        abcd'), 2);
+	});
+});
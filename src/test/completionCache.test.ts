@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+
+import { CompletionCache } from '../completionCache';
+import { LruCache } from '../lruCache';
+
+const FILE = 'file:///project/src/a.ts';
+const MODEL = 'http://localhost:3000|qwen';
+
+const edits = (...texts: string[]) => texts.map(insertText => ({ insertText, replace: 0 }));
+
+suite('Completion Cache Test Suite', () => {
+	test('LRU evicts the least recently used entry', () => {
+		const cache = new LruCache<string, number>(2);
+		cache.set('a', 1);
+		cache.set('b', 2);
+		cache.get('a');
+		cache.set('c', 3);
+
+		assert.strictEqual(cache.peek('b'), undefined);
+		assert.strictEqual(cache.peek('a'), 1);
+		assert.strictEqual(cache.peek('c'), 3);
+		assert.strictEqual(cache.hits, 1);
+	});
+
+	test('A dismissed suggestion is served again at the same position', () => {
+		const cache = new CompletionCache(10);
+		cache.store(cache.keyFor(FILE, 'const total = ', ';\n', MODEL), edits('a + b'));
+
+		assert.deepStrictEqual(cache.lookup(FILE, 'const total = ', ';\n', MODEL), edits('a + b'));
+		assert.strictEqual(cache.hits, 1);
+	});
+
+	test('Typing the start of a cached suggestion serves the rest', () => {
+		const cache = new CompletionCache(10);
+		cache.store(cache.keyFor(FILE, 'const total = ', ';\n', MODEL), edits('a + b'));
+
+		assert.deepStrictEqual(cache.lookup(FILE, 'const total = a +', ';\n', MODEL), edits(' b'));
+		assert.strictEqual(cache.lookup(FILE, 'const total = x', ';\n', MODEL), undefined);
+		assert.strictEqual(cache.lookup(FILE, 'const total = a + b', ';\n', MODEL), undefined);
+		assert.strictEqual(cache.misses, 2);
+	});
+
+	test('Only the candidates matching the typed text are served', () => {
+		const cache = new CompletionCache(10);
+		cache.store(cache.keyFor(FILE, 'const total = ', ';\n', MODEL), edits('a + b', 'a * b', 'sum(a, b)'));
+
+		assert.deepStrictEqual(cache.lookup(FILE, 'const total = ', ';\n', MODEL), edits('a + b', 'a * b', 'sum(a, b)'));
+		assert.deepStrictEqual(cache.lookup(FILE, 'const total = a', ';\n', MODEL), edits(' + b', ' * b'));
+	});
+
+	test('Another file, suffix or model misses', () => {
+		const cache = new CompletionCache(10);
+		cache.store(cache.keyFor(FILE, 'const total = ', ';\n', MODEL), edits('a + b'));
+
+		assert.strictEqual(cache.lookup('file:///project/src/b.ts', 'const total = ', ';\n', MODEL), undefined);
+		assert.strictEqual(cache.lookup(FILE, 'const total = ', ')\n', MODEL), undefined);
+		assert.strictEqual(cache.lookup(FILE, 'const total = ', ';\n', 'mock'), undefined);
+	});
+
+	test('Size 0 disables the cache', () => {
+		const cache = new CompletionCache(0);
+		cache.store(cache.keyFor(FILE, 'const total = ', ';\n', MODEL), edits('a + b'));
+
+		assert.strictEqual(cache.lookup(FILE, 'const total = ', ';\n', MODEL), undefined);
+	});
+});
@@ -0,0 +1,108 @@
+import * as assert from 'assert';
+
+import { CURSOR_MARKER } from '../activeContext';
+import { EvalConfig, runEvaluation } from '../eval/harness';
+import { expectedText, findMaskCandidates, sampleMasks, SourceFile } from '../eval/masking';
+import { renderReport } from '../eval/report';
+import { buildEvalRequest, ContextStrategy } from '../eval/requestBuilder';
+import { editSimilarity, scoreSuggestion } from '../eval/scoring';
+import { listen } from './testServers';
+
+const TYPESCRIPT: SourceFile = {
+	path: 'src/math.ts',
+	languageId: 'typescript',
+	text: [
+		"import { round } from './round';",
+		'',
+		'export function add(a: number, b: number): number {',
+		'    return round(a + b, 2);',
+		'}',
+		'',
+		'export function scale(values: number[], factor: number): number[] {',
+		'    const scaled = values.map(value => value * factor);',
+		'    return scaled;',
+		'}',
+		''
+	].join('\n')
+};
+
+const PYTHON: SourceFile = {
+	path: 'stats.py',
+	languageId: 'python',
+	text: 'def mean(values):\n    total = sum(values)\n    return total / len(values)\n\nprint(mean([1, 2, 3]))\n'
+};
+
+const SYMBOLS: ContextStrategy = { scoping: 'symbols', windowChars: 1000, redactSecrets: true };
+
+suite('Evaluation Harness Test Suite', () => {
+	test('Lines, function bodies and call arguments are masked, the same ones for the same seed', () => {
+		const candidates = findMaskCandidates(PYTHON);
+		const spans = candidates.map(span => `${span.kind}: ${expectedText(span)}`);
+
+		assert.ok(spans.includes('line: total = sum(values)'));
+		assert.ok(spans.includes('body: total = sum(values)\n    return total / len(values)'));
+		assert.ok(spans.includes('arguments: [1, 2, 3]'));
+		const definitionLineEnd = PYTHON.text.indexOf('\n');
+		assert.ok(candidates.every(span => span.kind !== 'arguments' || span.start > definitionLineEnd), 'parameter lists are not calls');
+
+		const draw = (seed: number) => sampleMasks([TYPESCRIPT, PYTHON], 2, seed).map(span => `${span.file.path}:${span.start}`);
+		assert.deepStrictEqual(draw(3), draw(3));
+		assert.strictEqual(draw(3).length, 6);
+	});
+
+	test('The request is scoped to the enclosing function like the extension does, or a window around the cursor', () => {
+		const mask = findMaskCandidates(TYPESCRIPT).find(span => span.kind === 'body' && expectedText(span).startsWith('const scaled'))!;
+
+		const scoped = buildEvalRequest(mask, SYMBOLS, 'demo');
+		assert.ok(scoped.context_text.startsWith('\n\n--- FILE: src/math.ts ---\n'));
+		assert.ok(scoped.context_text.includes("import { round } from './round';"));
+		assert.ok(scoped.context_text.includes(`number[] {\n    ${CURSOR_MARKER}\n}`));
+		assert.ok(!scoped.context_text.includes('function add'), 'other functions are hidden');
+		assert.strictEqual(scoped.prefix, '    ');
+
+		const windowed = buildEvalRequest(mask, { ...SYMBOLS, scoping: 'window' }, 'demo');
+		assert.ok(windowed.context_text.includes('function add'));
+	});
+
+	test('Scores ignore whitespace and "compiles" only counts errors the insertion adds', async () => {
+		const mask = findMaskCandidates(TYPESCRIPT).find(span => span.kind === 'arguments' && expectedText(span) === 'a + b, 2')!;
+
+		const exact = await scoreSuggestion(mask, { insertText: 'a + b,\n    2', replace: 0 });
+		assert.deepStrictEqual(exact, { exactMatch: true, editSimilarity: 1, compiles: true, empty: false });
+
+		const close = await scoreSuggestion(mask, { insertText: 'a+b, 2', replace: 0 });
+		assert.strictEqual(close.exactMatch, false);
+		assert.ok(close.editSimilarity > 0.7);
+
+		const broken = await scoreSuggestion(mask, { insertText: 'a + (b', replace: 0 });
+		assert.strictEqual(broken.compiles, false);
+
+		assert.strictEqual(editSimilarity('kitten', 'sitting'), 1 - 3 / 7);
+	});
+
+	test('Two configurations are run against the same masks and compared in the report', async () => {
+		const backend = await listen((_req, res) => res.end(JSON.stringify({ response: 'a + b, 2<|im_end|>', done: true })));
+
+		try {
+			const masks = findMaskCandidates(TYPESCRIPT).filter(span => span.kind === 'arguments');
+			const config = (name: string, context: ContextStrategy): EvalConfig => ({
+				name, server: { BACKEND_URL: backend.url, LOG_LEVEL: 'error' }, context, validateSyntax: true
+			});
+			const baseline = { config: config('symbols', SYMBOLS), results: await runEvaluation(masks, config('symbols', SYMBOLS), 'demo') };
+			const windowed = config('window', { ...SYMBOLS, scoping: 'window' });
+			const candidate = { config: windowed, results: await runEvaluation(masks, windowed, 'demo') };
+
+			assert.strictEqual(baseline.results.length, masks.length);
+			assert.ok(baseline.results.some(result => result.exactMatch));
+			assert.ok(baseline.results.every(result => result.error === undefined));
+
+			const report = renderReport({ repo: 'demo', files: 1, seed: 1, perKind: masks.length }, [baseline, candidate]);
+			assert.ok(report.startsWith('# Evaluation: symbols vs window'));
+			assert.ok(report.includes('| Exact match |'));
+			assert.ok(report.includes('## Masked: arguments'));
+			assert.ok(report.includes('## Differences'));
+		} finally {
+			await backend.close();
+		}
+	});
+});
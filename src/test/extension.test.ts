@@ -1,9 +1,12 @@
 import * as assert from 'assert';
+import * as path from 'path';
 
 // You can import and use all API from the 'vscode' module
 // as well as import your extension to test it
 import * as vscode from 'vscode';
-// import * as myExtension from '../../extension';
+import { truncateToLines } from '../contextFileReader';
+import { loadFixtures } from '../replayFixtures';
+import { replayCompletion } from '../replayMock';
 
 suite('Extension Test Suite', () => {
 	vscode.window.showInformationMessage('Start all tests.');
@@ -13,3 +16,76 @@ suite('Extension Test Suite', () => {
 		assert.strictEqual(-1, [1, 2, 3].indexOf(0));
 	});
 });
+
+// Debug mode without a running model: the fixtures shipped in /fixtures are replayed
+suite('Replay Mock Test Suite', () => {
+	const config = () => vscode.workspace.getConfiguration('codeSuggestions');
+	const fixtures = loadFixtures(path.join(__dirname, '..', '..', 'fixtures'));
+
+	suiteSetup(async () => {
+		await vscode.extensions.getExtension('Ig.code-suggestions')?.activate();
+		await config().update('replay.latencyMs', 0, vscode.ConfigurationTarget.Global);
+	});
+
+	teardown(async () => {
+		await config().update('replay.faults', undefined, vscode.ConfigurationTarget.Global);
+	});
+
+	suiteTeardown(async () => {
+		await config().update('replay.latencyMs', undefined, vscode.ConfigurationTarget.Global);
+	});
+
+	test('A recorded context gets its recorded candidates, multi-line ones included', async () => {
+		for (const fixture of fixtures) {
+			const count = fixture.request.candidates ?? 1;
+			const replayed = await replayCompletion(fixture.request.context_text, fixture.request.prefix ?? '', count);
+
+			assert.strictEqual(replayed.status, 'ok', fixture.name);
+			assert.deepStrictEqual(replayed.candidates, fixture.response.candidates.slice(0, count), fixture.name);
+		}
+		assert.ok(fixtures.some(fixture => fixture.response.text.includes('\n')), 'a multi-line fixture is shipped');
+	});
+
+	test('Injected faults answer busy or error, an injected timeout waits for cancellation', async () => {
+		const [fixture] = fixtures;
+
+		await config().update('replay.faults', 'busy:1', vscode.ConfigurationTarget.Global);
+		assert.strictEqual((await replayCompletion(fixture.request.context_text, '', 1)).status, 'busy');
+
+		await config().update('replay.faults', 'error:1', vscode.ConfigurationTarget.Global);
+		assert.strictEqual((await replayCompletion(fixture.request.context_text, '', 1)).status, 'error');
+
+		await config().update('replay.faults', 'timeout:1', vscode.ConfigurationTarget.Global);
+		const cancelled = await replayCompletion(fixture.request.context_text, '', 1, AbortSignal.timeout(50));
+		assert.strictEqual(cancelled.status, 'cancelled');
+	});
+
+	test('Unrecorded contexts still get a suggestion, always the same one', async () => {
+		const context = 'let total = <|CURSOR|>';
+		const first = await replayCompletion(context, 'let total = ', 1);
+		const second = await replayCompletion(context, 'let total = ', 1);
+
+		assert.strictEqual(first.status, 'ok');
+		assert.deepStrictEqual(first.candidates, second.candidates);
+	});
+});
+
+// Pinned context files are cut to hard character budgets
+suite('Context File Reader Test Suite', () => {
+	const text = Array.from({ length: 200 }, (_, i) => `const line${i} = ${i};`).join('\n');
+
+	test('A truncated file stays within its budget, marker included', () => {
+		for (const maxChars of [100, 2000, 2500]) {
+			const content = truncateToLines(text, maxChars);
+			assert.ok(content.length <= maxChars, `${content.length} > ${maxChars}`);
+			assert.ok(content.endsWith('// ... (truncated) ...'));
+			assert.ok(text.startsWith(content.split('\n// ... (truncated)')[0] + '\n'), 'cut at a full line');
+		}
+	});
+
+	test('Nothing is left when not even the marker fits, short texts stay untouched', () => {
+		assert.strictEqual(truncateToLines(text, 10), '');
+		assert.strictEqual(truncateToLines(text, 30).length, 30);
+		assert.strictEqual(truncateToLines('const a = 1;', 12), 'const a = 1;');
+	});
+});
@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+
+import { extractImportStatements, findIndentationScope, toComment } from '../languageSupport';
+
+const names = (text: string, languageId: string) =>
+	extractImportStatements(text, languageId).flatMap(statement => statement.names.map(entry => entry.name));
+
+suite('Language Support Test Suite', () => {
+	test('JS/TS imports: multi-line, without semicolons and require', () => {
+		const text = [
+			'import {',
+			'  a,',
+			'  b as c',
+			'} from "./ab"',
+			"const fs = require('fs');",
+			'const x = 1;'
+		].join('\n');
+
+		const statements = extractImportStatements(text, 'typescript');
+
+		assert.strictEqual(statements.length, 2);
+		assert.deepStrictEqual(names(text, 'typescript'), ['a', 'c', 'fs']);
+		const c = statements[0].names[1];
+		assert.strictEqual(text.substring(c.offset, c.offset + 1), 'c');
+	});
+
+	test('Python import and from-import', () => {
+		const text = 'import os.path as osp, sys\nfrom typing import (\n    List,\n    Dict as D,\n)\n\ndef f():\n    pass\n';
+
+		const statements = extractImportStatements(text, 'python');
+
+		assert.strictEqual(statements.length, 2);
+		assert.deepStrictEqual(names(text, 'python'), ['osp', 'sys', 'List', 'D']);
+		for (const entry of statements.flatMap(statement => statement.names)) {
+			assert.strictEqual(text.substring(entry.offset, entry.offset + entry.name.length), entry.name);
+		}
+	});
+
+	test('Go import blocks, Rust use, Java imports and C# usings', () => {
+		const go = 'package main\n\nimport (\n\t"fmt"\n\tstr "strings"\n)\nimport "os"\n';
+		assert.strictEqual(extractImportStatements(go, 'go').length, 2);
+
+		const rust = 'use std::collections::{HashMap, HashSet as Set};\npub use crate::model::User;\n';
+		assert.deepStrictEqual(names(rust, 'rust'), ['HashMap', 'Set', 'User']);
+
+		const java = 'import java.util.List;\nimport static org.junit.Assert.assertEquals;\nimport java.io.*;\n';
+		assert.strictEqual(extractImportStatements(java, 'java').length, 3);
+		assert.deepStrictEqual(names(java, 'java'), ['List', 'assertEquals']);
+
+		const csharp = 'using System;\nusing static System.Math;\nusing Json = Newtonsoft.Json;\nusing var stream = File.OpenRead(path);\n';
+		assert.strictEqual(extractImportStatements(csharp, 'csharp').length, 3);
+	});
+
+	test('JS import syntax is not picked up in other languages', () => {
+		assert.deepStrictEqual(extractImportStatements('import "fmt"\n', 'markdown'), []);
+	});
+
+	test('Markers use the language comment syntax', () => {
+		assert.strictEqual(toComment('python', 'hidden'), '# hidden');
+		assert.strictEqual(toComment('go', 'hidden'), '// hidden');
+		assert.strictEqual(toComment('sql', 'hidden'), '-- hidden');
+		assert.strictEqual(toComment('html', 'hidden'), '<!-- hidden -->');
+		assert.strictEqual(toComment('unknown-language', 'hidden'), '// hidden');
+	});
+
+	test('Indentation scope finds the enclosing block', () => {
+		const lines = [
+			'import os',           // 0
+			'',                    // 1
+			'def f(a):',           // 2
+			'    if a:',           // 3
+			'        return 1',    // 4
+			'    return 2',        // 5
+			'',                    // 6
+			'x = f(1)'             // 7
+		];
+
+		assert.deepStrictEqual(findIndentationScope(lines, 4), { start: 3, end: 4 });
+		assert.deepStrictEqual(findIndentationScope(lines, 5), { start: 2, end: 5 });
+		assert.strictEqual(findIndentationScope(lines, 7), undefined);
+	});
+});
@@ -0,0 +1,31 @@
+import * as assert from 'assert';
+
+import { applyHunks, diffLines } from '../lineDiff';
+
+const ORIGINAL = 'function add(a, b) {\n  const sum = a + b;\n  return sum;\n}\n';
+const REWRITTEN = '/** Adds two numbers */\nfunction add(a, b) {\n  return a + b;\n}\n';
+
+suite('Line Diff Test Suite', () => {
+	test('Changed lines are grouped into hunks, unchanged ones are left out', () => {
+		assert.deepStrictEqual(diffLines(ORIGINAL, REWRITTEN), [
+			{ start: 0, removed: [], added: ['/** Adds two numbers */\n'] },
+			{ start: 1, removed: ['  const sum = a + b;\n', '  return sum;\n'], added: ['  return a + b;\n'] }
+		]);
+		assert.deepStrictEqual(diffLines(ORIGINAL, ORIGINAL), []);
+	});
+
+	test('Applying every hunk gives the rewrite, applying some gives a mix', () => {
+		const hunks = diffLines(ORIGINAL, REWRITTEN);
+
+		assert.strictEqual(applyHunks(ORIGINAL, hunks), REWRITTEN);
+		assert.strictEqual(applyHunks(ORIGINAL, []), ORIGINAL);
+		assert.strictEqual(applyHunks(ORIGINAL, [hunks[1]]), 'function add(a, b) {\n  return a + b;\n}\n');
+	});
+
+	test('A missing final line break is a change of the last line', () => {
+		const hunks = diffLines('a\nb', 'a\nb\n');
+
+		assert.deepStrictEqual(hunks, [{ start: 1, removed: ['b'], added: ['b\n'] }]);
+		assert.strictEqual(applyHunks('a\nb', hunks), 'a\nb\n');
+	});
+});
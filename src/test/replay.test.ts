@@ -0,0 +1,155 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { createFaultPicker, Fixture, FixtureStore, loadFixtures, parseFaultRates, replayedCandidates } from '../replayFixtures';
+import { createApp } from '../server/app';
+import { loadServerConfig } from '../server/config';
+import { createLogger } from '../server/logger';
+import { FixtureRecorder } from '../server/replay';
+import { createCompletionService } from '../server/server-file';
+import { listen } from './testServers';
+
+// The fixtures shipped with the extension (out/test -> repository root)
+const FIXTURES_DIR = path.join(__dirname, '..', '..', 'fixtures');
+
+suite('Record/Replay Test Suite', () => {
+	const closers: (() => Promise<void>)[] = [];
+
+	teardown(async () => {
+		while (closers.length > 0) {
+			await closers.pop()!();
+		}
+	});
+
+	async function startServer(env: NodeJS.ProcessEnv): Promise<string> {
+		const config = loadServerConfig(env);
+		const logger = createLogger('error', () => { /* Quiet */ });
+		const server = await listen(createApp(createCompletionService(config, logger), config, logger));
+		closers.push(server.close);
+		return server.url;
+	}
+
+	const post = (url: string, body: Fixture['request'], signal?: AbortSignal) => fetch(url, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(body),
+		signal
+	});
+
+	test('Replayed fixtures go through post-processing and match the recorded answers', async () => {
+		const serverUrl = await startServer({ REPLAY_FIXTURES: FIXTURES_DIR });
+
+		for (const fixture of loadFixtures(FIXTURES_DIR)) {
+			const response = await post(`${serverUrl}${fixture.route}`, fixture.request);
+			assert.strictEqual(response.status, 200, fixture.name);
+
+			if (fixture.route === '/complete') {
+				assert.deepStrictEqual(await response.json(), fixture.response, fixture.name);
+			} else {
+				const lines = (await response.text()).trim().split('\n').map(line => JSON.parse(line));
+				assert.ok(lines.length > 1, `${fixture.name} is streamed`);
+				assert.strictEqual(lines[lines.length - 1].text, fixture.response.text, fixture.name);
+			}
+		}
+	});
+
+	test('Faults are injected per fixture and by seeded rates', async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fixtures-'));
+		const [fixture] = loadFixtures(FIXTURES_DIR);
+		fs.writeFileSync(path.join(dir, 'failing.json'), JSON.stringify({ ...fixture, fault: 'error' }));
+
+		const failing = await post(`${await startServer({ REPLAY_FIXTURES: dir })}/complete`, fixture.request);
+		assert.strictEqual(failing.status, 500);
+		assert.strictEqual((await failing.json() as any).status, 'error');
+
+		const busy = await post(`${await startServer({ REPLAY_FIXTURES: FIXTURES_DIR, REPLAY_FAULTS: 'busy:1' })}/complete`, fixture.request);
+		assert.strictEqual(busy.status, 503);
+		assert.strictEqual(busy.headers.get('Retry-After'), '1');
+
+		const hanging = post(`${await startServer({ REPLAY_FIXTURES: FIXTURES_DIR, REPLAY_FAULTS: 'timeout:1' })}/complete`,
+			fixture.request, AbortSignal.timeout(200));
+		await assert.rejects(hanging, { name: 'TimeoutError' });
+
+		// The same seed draws the same faults
+		const draw = () => {
+			const pick = createFaultPicker({ faults: parseFaultRates('timeout:0.2,error:0.2,busy:0.2'), seed: 7 });
+			return Array.from({ length: 20 }, () => pick());
+		};
+		assert.deepStrictEqual(draw(), draw());
+		assert.ok(draw().includes(undefined));
+	});
+
+	test('Recorded exchanges keep the raw backend output and replay to the same answer', async () => {
+		const rawOutput = 'a + b;<|im_end|>\n}';
+		const backend = await listen((_req, res) => res.end(JSON.stringify({ response: rawOutput, done: true })));
+		closers.push(backend.close);
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'recorded-'));
+
+		const request = { context_text: 'function sum(a, b) {\n    return <|CURSOR|>\n}\n', language_id: 'javascript', prefix: '    return ' };
+		const recorded = await (await post(`${await startServer({ BACKEND_URL: backend.url, RECORD_FIXTURES: dir })}/complete`, request)).json() as any;
+
+		const [fixture] = loadFixtures(dir);
+		assert.deepStrictEqual(fixture.rawOutputs, [rawOutput]);
+		assert.strictEqual(fixture.response.text, 'a + b;');
+		assert.strictEqual(fixture.backend.kind, 'ollama');
+
+		const replayed = await (await post(`${await startServer({ REPLAY_FIXTURES: dir })}/complete`, request)).json();
+		assert.deepStrictEqual(replayed, recorded);
+	});
+
+	test('Outputs of requests that end without a fixture are dropped, edit prompts are never kept', async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'recorded-'));
+		const recorder = new FixtureRecorder(dir, createLogger('error', () => { /* Quiet */ }));
+		const backend = recorder.wrap({
+			kind: 'ollama',
+			model: 'coder',
+			generate: async request => `output for ${request.prompt}`,
+			stream: async function* () { /* Not used */ },
+			generateCandidates: async () => [],
+			listModels: async () => []
+		});
+		const signal = new AbortController().signal;
+		const prompt = (text: string, instruction = false) => ({ prompt: text, prefix: '', suffix: '', stop: [], raw: true, instruction });
+		const recordFor = (text: string) => recorder.record({
+			route: '/complete',
+			request: { context_text: text },
+			prompt: text,
+			backend: { kind: 'ollama', model: 'coder', template: 'qwen-chat-fim' },
+			response: { status: 'ok', text: 'x', replace: 0, candidates: [] },
+			latencyMs: 1
+		});
+
+		await backend.generate(prompt('superseded'), signal);
+		recorder.forget('superseded');
+		recordFor('superseded');
+
+		await backend.generate(prompt('edit', true), signal);
+		recordFor('edit');
+		assert.deepStrictEqual(fs.readdirSync(dir), []);
+
+		await backend.generate(prompt('answered'), signal);
+		recordFor('answered');
+		assert.deepStrictEqual(loadFixtures(dir).map(fixture => fixture.rawOutputs), [['output for answered']]);
+	});
+
+	test('A fixture replayed for another context keeps its text but replaces nothing', () => {
+		const recorded: Fixture = {
+			...loadFixtures(FIXTURES_DIR)[0],
+			request: { context_text: 'const sum = <|CURSOR|>);' },
+			response: { status: 'ok', text: 'a + b', replace: 2, candidates: [{ insertText: 'a + b', replace: 2 }] }
+		};
+		const store = new FixtureStore([recorded]);
+
+		assert.deepStrictEqual(replayedCandidates(store.forRequest('const sum = <|CURSOR|>);')!, 'const sum = <|CURSOR|>);'), [
+			{ insertText: 'a + b', replace: 2 }
+		]);
+
+		const otherContext = 'let total = <|CURSOR|>\nreturn total;';
+		const fallback = store.forRequest(otherContext)!;
+		assert.strictEqual(fallback, recorded);
+		assert.deepStrictEqual(replayedCandidates(fallback, otherContext), [{ insertText: 'a + b', replace: 0 }]);
+		assert.strictEqual(recorded.response.candidates[0].replace, 2);
+	});
+});
@@ -0,0 +1,111 @@
+import * as assert from 'assert';
+import * as http from 'http';
+
+import { createApp } from '../server/app';
+import { loadServerConfig } from '../server/config';
+import { createLogger } from '../server/logger';
+import { createCompletionService } from '../server/server-file';
+import { listen, waitFor } from './testServers';
+
+const CONTEXT_TEXT = 'function add(a, b) {\n  return <|CURSOR|>\n}';
+
+suite('Request Queue Test Suite', () => {
+	const closers: (() => Promise<void>)[] = [];
+
+	// A backend that holds every generation until the test answers it, and notices when one is abandoned
+	let generations: http.ServerResponse[] = [];
+	let abandoned = 0;
+	const answer = (index: number, text: string) => generations[index].end(JSON.stringify({ response: text, done: true }));
+
+	teardown(async () => {
+		while (closers.length > 0) {
+			await closers.pop()!();
+		}
+	});
+
+	async function startServer(env: Record<string, string> = {}): Promise<string> {
+		generations = [];
+		abandoned = 0;
+		const backend = await listen((req, res) => {
+			req.resume();
+			req.on('end', () => generations.push(res));
+			res.on('close', () => {
+				if (!res.writableEnded) {
+					abandoned++;
+				}
+			});
+		});
+		closers.push(backend.close);
+
+		const config = loadServerConfig({ BACKEND_URL: backend.url, ...env });
+		const logger = createLogger('error', () => { /* Quiet */ });
+		const server = await listen(createApp(createCompletionService(config, logger), config, logger));
+		closers.push(server.close);
+		return server.url;
+	}
+
+	const complete = (url: string, clientId: string, signal?: AbortSignal) => fetch(`${url}/complete`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json', 'X-Client-Id': clientId },
+		body: JSON.stringify({ context_text: CONTEXT_TEXT }),
+		signal
+	});
+
+	test('A newer request of the same client supersedes the running one with 409', async () => {
+		const url = await startServer();
+
+		const older = complete(url, 'window-1');
+		await waitFor(() => generations.length === 1);
+		const newer = complete(url, 'window-1');
+
+		const superseded = await older;
+		assert.strictEqual(superseded.status, 409);
+		assert.deepStrictEqual(await superseded.json(), { status: 'superseded' });
+		await waitFor(() => abandoned === 1);
+
+		await waitFor(() => generations.length === 2);
+		answer(1, 'a + b;');
+		const body = await (await newer).json() as any;
+		assert.strictEqual(body.status, 'ok');
+		assert.strictEqual(body.insertText, 'a + b;');
+	});
+
+	test('Clients beyond the waiting limit get 503 with Retry-After', async () => {
+		const url = await startServer({ MAX_WAITING_REQUESTS: '1' });
+
+		const running = complete(url, 'window-1');
+		await waitFor(() => generations.length === 1);
+		const waiting = complete(url, 'window-2');
+		await new Promise(resolve => setTimeout(resolve, 50));
+
+		const refused = await complete(url, 'window-3');
+		assert.strictEqual(refused.status, 503);
+		assert.strictEqual(refused.headers.get('Retry-After'), '1');
+		assert.deepStrictEqual(await refused.json(), { status: 'busy' });
+
+		// The others are served in order
+		answer(0, 'a + b;');
+		assert.strictEqual((await running).status, 200);
+		await waitFor(() => generations.length === 2);
+		answer(1, 'a - b;');
+		assert.strictEqual(((await (await waiting).json()) as any).insertText, 'a - b;');
+	});
+
+	test('A client that disconnects aborts its generation', async () => {
+		const url = await startServer();
+		const abortController = new AbortController();
+
+		const request = complete(url, 'window-1', abortController.signal);
+		await waitFor(() => generations.length === 1);
+		abortController.abort();
+		await assert.rejects(request, { name: 'AbortError' });
+
+		await waitFor(() => abandoned === 1);
+
+		// The queue is free again
+		const next = complete(url, 'window-1');
+		await waitFor(() => generations.length === 2);
+		answer(1, 'a + b;');
+		assert.strictEqual((await next).status, 200);
+	});
+});
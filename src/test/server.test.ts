@@ -0,0 +1,164 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { createApp } from '../server/app';
+import { ServerConfig, loadServerConfig, parseArgs } from '../server/config';
+import { createLogger } from '../server/logger';
+import { createCompletionService } from '../server/server-file';
+import { listen } from './testServers';
+
+suite('Standalone Server Test Suite', () => {
+	const closers: (() => Promise<void>)[] = [];
+
+	teardown(async () => {
+		while (closers.length > 0) {
+			await closers.pop()!();
+		}
+	});
+
+	// The completion server in front of a backend at `backendUrl`, with logs kept in memory
+	async function startServer(backendUrl: string): Promise<{ url: string; logs: string[] }> {
+		const config: ServerConfig = loadServerConfig({ BACKEND_URL: backendUrl, BACKEND_MODEL: 'coder:7b' });
+		const logs: string[] = [];
+		const logger = createLogger('info', line => logs.push(line));
+		const app = createApp(createCompletionService(config, logger), config, logger);
+
+		const server = await listen(app);
+		closers.push(server.close);
+		return { url: server.url, logs };
+	}
+
+	test('CLI flags become the environment variables they stand for', () => {
+		assert.deepStrictEqual(
+			parseArgs(['--port', '4000', '--model=qwen:7b', '--backend', 'openai']),
+			{ PORT: '4000', BACKEND_MODEL: 'qwen:7b', BACKEND_KIND: 'openai' }
+		);
+		assert.throws(() => parseArgs(['--prot', '4000']), /Unknown option "--prot"/);
+		assert.throws(() => parseArgs(['--port']), /needs a value/);
+	});
+
+	test('Environment variables override the config file', () => {
+		const file = path.join(os.tmpdir(), `code-suggestions-server-${process.pid}.json`);
+		fs.writeFileSync(file, JSON.stringify({
+			port: 4100,
+			template: 'starcoder2',
+			backend: { kind: 'llamacpp', model: 'from-file', options: { numCtx: 8192 } },
+			limits: { cacheSize: 50 }
+		}));
+
+		try {
+			const config = loadServerConfig({ SERVER_CONFIG: file, BACKEND_MODEL: 'from-env', COMPLETION_CACHE_SIZE: '10' });
+
+			assert.strictEqual(config.port, 4100);
+			assert.strictEqual(config.template, 'starcoder2');
+			assert.strictEqual(config.backend.kind, 'llamacpp');
+			assert.strictEqual(config.backend.model, 'from-env');
+			assert.strictEqual(config.backend.options.numCtx, 8192);
+			assert.strictEqual(config.backend.options.numPredict, 1000);
+			assert.strictEqual(config.limits.cacheSize, 10);
+			assert.strictEqual(config.limits.maxWaitingRequests, 8);
+		} finally {
+			fs.unlinkSync(file);
+		}
+	});
+
+	test('/health and /models report the backend and its models', async () => {
+		const backend = await listen((req, res) => {
+			res.end(JSON.stringify(req.url === '/api/tags' ? { models: [{ name: 'coder:7b' }, { name: 'llama3' }] } : {}));
+		});
+		closers.push(backend.close);
+		const server = await startServer(backend.url);
+
+		const health = await fetch(`${server.url}/health`);
+		const healthBody = await health.json() as any;
+		assert.strictEqual(health.status, 200);
+		assert.strictEqual(healthBody.status, 'ok');
+		assert.strictEqual(healthBody.backend.reachable, true);
+		assert.strictEqual(healthBody.backend.modelAvailable, true);
+		assert.deepStrictEqual(healthBody.queue, { running: 0, waiting: 0 });
+
+		const models = await (await fetch(`${server.url}/models`)).json() as any;
+		assert.deepStrictEqual(models.models, ['coder:7b', 'llama3']);
+		assert.strictEqual(models.model, 'coder:7b');
+
+		// One JSON line per request
+		const requestLine = server.logs.map(line => JSON.parse(line)).find(entry => entry.path === '/health');
+		assert.strictEqual(requestLine.msg, 'request');
+		assert.strictEqual(requestLine.status, 200);
+		assert.strictEqual(requestLine.backendReachable, true);
+	});
+
+	test('/health answers 503 when the backend is down', async () => {
+		const backend = await listen(() => { /* Never used */ });
+		await backend.close();
+		const server = await startServer(backend.url);
+
+		const health = await fetch(`${server.url}/health`);
+		const body = await health.json() as any;
+		assert.strictEqual(health.status, 503);
+		assert.strictEqual(body.backend.reachable, false);
+		assert.ok(body.backend.error);
+
+		assert.strictEqual((await fetch(`${server.url}/models`)).status, 502);
+	});
+
+	test('/complete answers through the configured backend', async () => {
+		const backend = await listen((_req, res) => {
+			res.end(JSON.stringify({ response: 'a + b;', done: true }));
+		});
+		closers.push(backend.close);
+		const server = await startServer(backend.url);
+
+		const response = await fetch(`${server.url}/complete`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ context_text: 'function add(a, b) {\n  return <|CURSOR|>\n}' })
+		});
+		const body = await response.json() as any;
+
+		assert.strictEqual(body.status, 'ok');
+		assert.strictEqual(body.insertText, 'a + b;');
+		assert.strictEqual(body.model, 'coder:7b');
+	});
+
+	test('/edit sends the instruction with the selection and returns only the rewritten code', async () => {
+		let prompt = '';
+		const backend = await listen((req, res) => {
+			let body = '';
+			req.on('data', chunk => body += chunk);
+			req.on('end', () => {
+				prompt = JSON.parse(body).prompt;
+				res.end(JSON.stringify({ response: 'Here you go:\n```ts\nreturn a - b;\n```<|im_end|>', done: true }));
+			});
+		});
+		closers.push(backend.close);
+		const server = await startServer(backend.url);
+
+		const response = await fetch(`${server.url}/edit`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({
+				instruction: 'Subtract instead',
+				selection: '  return a + b;\n',
+				prefix: 'function add(a, b) {\n',
+				suffix: '}',
+				path: 'math.ts'
+			})
+		});
+		const body = await response.json() as any;
+
+		assert.strictEqual(body.status, 'ok');
+		assert.strictEqual(body.text, '  return a - b;\n');
+		assert.ok(prompt.includes('function add(a, b) {\n<selection>  return a + b;\n</selection>}'));
+		assert.ok(prompt.includes('Instruction: Subtract instead'));
+
+		const missing = await fetch(`${server.url}/edit`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ selection: 'x' })
+		});
+		assert.strictEqual(missing.status, 400);
+	});
+});
@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+
+import { createApp } from '../server/app';
+import { loadServerConfig } from '../server/config';
+import { createLogger } from '../server/logger';
+import { createCompletionService } from '../server/server-file';
+import { listen, waitFor } from './testServers';
+
+const CHUNK_INTERVAL_MS = 30;
+
+suite('Streaming Route Test Suite', () => {
+	const closers: (() => Promise<void>)[] = [];
+
+	// Whether the last streamed generation was cut off by the server before the backend finished it
+	let stoppedEarly = false;
+
+	teardown(async () => {
+		while (closers.length > 0) {
+			await closers.pop()!();
+		}
+	});
+
+	// The completion server in front of an Ollama-like backend that streams `chunks` one by one
+	async function startServer(chunks: string[]): Promise<string> {
+		stoppedEarly = false;
+		const backend = await listen((req, res) => {
+			req.resume();
+			res.setHeader('Content-Type', 'application/x-ndjson');
+			let index = 0;
+			const timer = setInterval(() => {
+				if (index < chunks.length) {
+					res.write(JSON.stringify({ response: chunks[index++], done: false }) + '\n');
+					return;
+				}
+				clearInterval(timer);
+				res.end(JSON.stringify({ response: '', done: true }) + '\n');
+			}, CHUNK_INTERVAL_MS);
+			res.on('close', () => {
+				clearInterval(timer);
+				stoppedEarly = !res.writableEnded;
+			});
+		});
+		closers.push(backend.close);
+
+		const config = loadServerConfig({ BACKEND_URL: backend.url });
+		const logger = createLogger('error', () => { /* Quiet */ });
+		const server = await listen(createApp(createCompletionService(config, logger), config, logger));
+		closers.push(server.close);
+		return server.url;
+	}
+
+	// Every NDJSON line of a /complete/stream response
+	async function streamLines(url: string, contextText: string): Promise<{ contentType: string | null; lines: any[] }> {
+		const response = await fetch(`${url}/complete/stream`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ context_text: contextText })
+		});
+		const body = await response.text();
+		assert.ok(body.endsWith('\n'), 'every line ends with a newline');
+		return { contentType: response.headers.get('Content-Type'), lines: body.trimEnd().split('\n').map(line => JSON.parse(line)) };
+	}
+
+	test('Each NDJSON line carries the whole suggestion so far, the last one the outcome', async () => {
+		const url = await startServer(['a', ' + ', 'b']);
+
+		const { contentType, lines } = await streamLines(url, 'const sum = <|CURSOR|>');
+
+		assert.ok(contentType?.startsWith('application/x-ndjson'));
+		assert.deepStrictEqual(lines.slice(0, -1), [
+			{ text: 'a', replace: 0, done: false },
+			{ text: 'a + ', replace: 0, done: false },
+			{ text: 'a + b', replace: 0, done: false }
+		]);
+		const last = lines[lines.length - 1];
+		assert.strictEqual(last.status, 'ok');
+		assert.strictEqual(last.done, true);
+		assert.strictEqual(last.text, 'a + b');
+	});
+
+	test('Generation stops at a natural boundary', async () => {
+		const url = await startServer(['return a + b;', '\n', '}\n', '\nfunction next() {\n', '  return 1;\n']);
+
+		const { lines } = await streamLines(url, 'function add(a, b) {\n  <|CURSOR|>\n}');
+
+		const last = lines[lines.length - 1];
+		assert.strictEqual(last.status, 'ok');
+		assert.strictEqual(last.text, 'return a + b;');
+		await waitFor(() => stoppedEarly); // The backend generation is closed once the boundary is reached
+	});
+
+	test('A stop token split across chunks is held back, never shown', async () => {
+		const url = await startServer(['a + b', '<|im_', 'end|>', ' trailing']);
+
+		const { lines } = await streamLines(url, 'const sum = <|CURSOR|>');
+
+		assert.ok(lines.every(line => !line.text?.includes('<|')), JSON.stringify(lines));
+		assert.deepStrictEqual(lines.filter(line => !line.done).map(line => line.text), ['a + b']);
+		assert.strictEqual(lines[lines.length - 1].text, 'a + b');
+		await waitFor(() => stoppedEarly);
+	});
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+
+import { findSuffixOverlap, mergeWithSuffix } from '../server/suffixMerge';
+
+suite('Suffix Merge Test Suite', () => {
+	test('Nothing after the cursor: plain insert', () => {
+		assert.deepStrictEqual(mergeWithSuffix('return a + b;', '\n}\n'), { insertText: 'return a + b;', replace: 0 });
+	});
+
+	test('An auto-closed bracket the suggestion closes again is replaced', () => {
+		// foo(|)  ->  foo(a, b)
+		assert.deepStrictEqual(mergeWithSuffix('a, b)', ')\n'), { insertText: 'a, b)', replace: 1 });
+	});
+
+	test('Brackets matched inside the suggestion are not mistaken for the auto-closed one', () => {
+		// foo(|)  ->  foo(x + (y))
+		assert.deepStrictEqual(mergeWithSuffix('x + (y)', ')\n'), { insertText: 'x + (y)', replace: 0 });
+		assert.deepStrictEqual(mergeWithSuffix('bar(1))', ')\n'), { insertText: 'bar(1))', replace: 1 });
+	});
+
+	test('Auto-closed quotes and brackets merge together', () => {
+		// log("|")  ->  log("hello", name)
+		assert.deepStrictEqual(mergeWithSuffix('hello", name)', '")\n'), { insertText: 'hello", name)', replace: 2 });
+	});
+
+	test('A repeated statement end after the closers is replaced too', () => {
+		// foo(|);  ->  foo(a);
+		assert.deepStrictEqual(mergeWithSuffix('a);', ');\n'), { insertText: 'a);', replace: 2 });
+		// foo(|);  ->  foo(a) + b;
+		assert.deepStrictEqual(mergeWithSuffix('a) + b;', ');\n'), { insertText: 'a) + b;', replace: 2 });
+	});
+
+	test('A suggestion ending with the whole rest of the line replaces it', () => {
+		// const x = |value;  ->  const x = other + value;
+		assert.deepStrictEqual(mergeWithSuffix('other + value;', 'value;\n'), { insertText: 'other + value;', replace: 6 });
+	});
+
+	test('Multi-line suggestions replace the auto-closed brace at the cursor', () => {
+		// if (ok) {|}  ->  if (ok) {\n  run();\n}
+		assert.deepStrictEqual(mergeWithSuffix('\n  run();\n}', '}\n'), { insertText: '\n  run();\n}', replace: 1 });
+	});
+
+	test('The overlap cut only applies to a rest of line with code', () => {
+		assert.strictEqual(findSuffixOverlap('a, b)', ')\n'), -1);
+		assert.strictEqual(findSuffixOverlap('const y = 1;\nreturn x;\n}', 'return x;\n}'), 13);
+		assert.strictEqual(findSuffixOverlap('other + value;', 'value;\n'), -1);
+	});
+});
@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+
+import { parseJsonl, percentile, summarize, SuggestionRecord, toJsonl, typedAheadIndices } from '../suggestionStats';
+
+function record(overrides: Partial<SuggestionRecord>): SuggestionRecord {
+	return {
+		timestamp: '2026-10-19T10:00:00.000Z',
+		languageId: 'typescript',
+		model: 'qwen',
+		template: 'qwen-fim',
+		source: 'server',
+		trigger: 'automatic',
+		latencyMs: 100,
+		contextChars: 1000,
+		candidates: 1,
+		suggestionChars: 20,
+		acceptedChars: 0,
+		outcome: 'dismissed',
+		...overrides
+	};
+}
+
+suite('Suggestion Stats Test Suite', () => {
+	test('Percentiles use the nearest rank', () => {
+		const values = [50, 10, 40, 20, 30, 60, 70, 80, 90, 100];
+
+		assert.strictEqual(percentile(values, 50), 50);
+		assert.strictEqual(percentile(values, 90), 90);
+		assert.strictEqual(percentile(values, 99), 100);
+		assert.strictEqual(percentile([], 50), 0);
+	});
+
+	test('Acceptance is summarized overall and per group, cache hits stay out of the latency', () => {
+		const summary = summarize([
+			record({ outcome: 'accepted', acceptedChars: 20, latencyMs: 200 }),
+			record({ outcome: 'partiallyAccepted', acceptedChars: 5, latencyMs: 400 }),
+			record({ outcome: 'dismissed', latencyMs: 300, languageId: 'python', model: 'llama' }),
+			record({ outcome: 'accepted', acceptedChars: 20, latencyMs: 1, source: 'cache', contextChars: undefined })
+		]);
+
+		assert.strictEqual(summary.shown, 4);
+		assert.strictEqual(summary.acceptanceRate, 0.75);
+		assert.strictEqual(summary.acceptedCharsRate, 45 / 80);
+		assert.deepStrictEqual(summary.latencyMs, { p50: 300, p90: 400, p99: 400 });
+		assert.strictEqual(summary.averageContextChars, 1000);
+		assert.deepStrictEqual(summary.byLanguage.map(group => [group.key, group.shown, group.acceptanceRate]), [
+			['typescript', 3, 1],
+			['python', 1, 0]
+		]);
+		assert.deepStrictEqual(summary.byModel.map(group => group.key), ['qwen (qwen-fim)', 'llama (qwen-fim)']);
+	});
+
+	test('JSONL round-trips and skips broken lines', () => {
+		const records = [record({ outcome: 'accepted' }), record({ languageId: 'go' })];
+		const text = toJsonl(records) + '{"outcome": "acc';
+
+		assert.deepStrictEqual(parseJsonl(text), records);
+	});
+
+	test('Typing the start of a suggestion keeps it the same suggestion', () => {
+		const offeredAt = { line: 'file:///a.ts:3', textBefore: 'const sum = ' };
+		const offered = ['a + b;', 'add(a, b);'];
+
+		// Typed "a" and then " +": the rest of the first candidate is served again
+		assert.deepStrictEqual(typedAheadIndices(offeredAt, offered, { ...offeredAt, textBefore: 'const sum = a' }, [' + b;']), [0]);
+		assert.deepStrictEqual(typedAheadIndices(offeredAt, offered, { ...offeredAt, textBefore: 'const sum = a +' }, [' b;']), [0]);
+		assert.deepStrictEqual(typedAheadIndices(offeredAt, offered, offeredAt, ['add(a, b);', 'a + b;']), [1, 0]);
+
+		// Something else typed, served or on another line is a new suggestion
+		assert.strictEqual(typedAheadIndices(offeredAt, offered, { ...offeredAt, textBefore: 'const sum = x' }, [' + b;']), undefined);
+		assert.strictEqual(typedAheadIndices(offeredAt, offered, { ...offeredAt, textBefore: 'const sum = a' }, [' - b;']), undefined);
+		assert.strictEqual(typedAheadIndices(offeredAt, offered, { line: 'file:///a.ts:4', textBefore: 'const sum = a' }, [' + b;']), undefined);
+		assert.strictEqual(typedAheadIndices(offeredAt, offered, { ...offeredAt, textBefore: 'const sum' }, ['= a + b;']), undefined);
+	});
+});
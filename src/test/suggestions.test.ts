@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+
+import { rankCandidates } from '../server/server-file';
+
+suite('Suggestion Post-processing Test Suite', () => {
+	test('Candidates are ranked by mean log-probability', () => {
+		const ranked = rankCandidates([
+			{ text: 'a + b', meanLogprob: -1.5 },
+			{ text: 'a * b', meanLogprob: -0.2 },
+			{ text: 'sum(a, b)', meanLogprob: -0.9 }
+		]);
+
+		assert.deepStrictEqual(ranked, ['a * b', 'sum(a, b)', 'a + b']);
+	});
+
+	test('Empty and duplicate candidates are dropped, the best-ranked duplicate stays', () => {
+		const ranked = rankCandidates([
+			{ text: 'a + b', meanLogprob: -1 },
+			{ text: '   ' },
+			{ text: 'a + b\n', meanLogprob: -0.5 },
+			{ text: 'a - b', meanLogprob: -2 }
+		]);
+
+		assert.deepStrictEqual(ranked, ['a + b\n', 'a - b']);
+	});
+
+	test('Without log-probabilities the sampling order is kept', () => {
+		assert.deepStrictEqual(rankCandidates([{ text: 'x' }, { text: 'y' }, { text: 'x' }]), ['x', 'y']);
+	});
+});
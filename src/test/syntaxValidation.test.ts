@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+
+import { validateSuggestion, ValidationContext } from '../syntaxValidation';
+
+function contextFor(languageId: string, textBefore: string, textAfter: string): ValidationContext {
+	return { textBefore, textAfter, languageId, fileName: `test.${languageId === 'python' ? 'py' : 'ts'}` };
+}
+
+suite('Syntax Validation Test Suite', () => {
+	let logged: string[] = [];
+	const record = (message: string) => logged.push(message);
+
+	setup(() => {
+		logged = [];
+	});
+
+	test('A valid TypeScript suggestion is kept whole', async () => {
+		const context = contextFor('typescript', 'function f(a: number) {\n  return ', '\n}\n');
+
+		const result = await validateSuggestion({ insertText: 'a * 2;', replace: 0 }, context, record);
+
+		assert.deepStrictEqual(result, { insertText: 'a * 2;', replace: 0 });
+	});
+
+	test('TypeScript: trimmed to the longest prefix without new errors', async () => {
+		const context = contextFor('typescript', 'function f(a: number) {\n  const b = ', '\n}\n');
+
+		const result = await validateSuggestion({ insertText: 'a * 2;\n  return b +', replace: 0 }, context, record);
+
+		assert.deepStrictEqual(result, { insertText: 'a * 2;', replace: 0 });
+		assert.deepStrictEqual(logged, ['[AI] Suggestion trimmed to 1 line(s): Expression expected.']);
+	});
+
+	test('Errors the user is still typing do not count against the suggestion', async () => {
+		const context = contextFor('typescript', 'const x = [1, 2\nfunction g() {\n  return ', '\n}\n');
+
+		const result = await validateSuggestion({ insertText: '42;', replace: 0 }, context, record);
+
+		assert.strictEqual(result.insertText, '42;');
+	});
+
+	test('The replaced characters after the cursor are taken into account', async () => {
+		const context = contextFor('typescript', 'console.log(', ');\n');
+
+		const result = await validateSuggestion({ insertText: 'a, b);', replace: 2 }, context, record);
+
+		assert.deepStrictEqual(result, { insertText: 'a, b);', replace: 2 });
+	});
+
+	test('Leftover markdown fences end the suggestion', async () => {
+		const context = contextFor('typescript', 'const a = ', '\n');
+
+		const result = await validateSuggestion({ insertText: '1;\n```\nSome explanation', replace: 0 }, context, record);
+
+		assert.strictEqual(result.insertText, '1;');
+	});
+
+	test('Other languages: unbalanced brackets are cut, nothing valid left is dropped', async () => {
+		const context = contextFor('go', 'func main() {\n\t', '\n}\n');
+
+		const trimmed = await validateSuggestion({ insertText: 'fmt.Println("hi")\n\tif ok {', replace: 0 }, context, record);
+		const dropped = await validateSuggestion({ insertText: 'run(', replace: 0 }, context, record);
+
+		assert.strictEqual(trimmed.insertText, 'fmt.Println("hi")');
+		assert.strictEqual(dropped.insertText, '');
+	});
+
+	test('Python: an unexpected indent is cut', async () => {
+		const context = contextFor('python', 'def f(a):\n    b = ', '\n');
+
+		const result = await validateSuggestion({ insertText: 'a + 1\n        return b', replace: 0 }, context, record);
+
+		assert.strictEqual(result.insertText, 'a + 1');
+	});
+});
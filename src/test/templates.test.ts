@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+	BUILT_IN_TEMPLATES, FILE_SEPARATOR, loadTemplates, PromptParts, renderPrompt, resolveTemplate, stopSequencesFor
+} from '../server/templates';
+
+const PARTS: PromptParts = {
+	repoName: 'demo',
+	contextFiles: [{ path: 'util.ts', content: 'export const one = 1;' }],
+	activePath: 'main.ts',
+	prefix: 'const a = ',
+	suffix: ';\n'
+};
+
+// The pinned file and the active file as plain "--- FILE:" blocks, for templates without repo-level tokens
+const PLAIN_PREFIX = '--- FILE: util.ts ---\nexport const one = 1;\n\n--- FILE: main.ts ---\nconst a = ';
+
+const EXPECTED_PROMPTS: Record<string, string> = {
+	'qwen-chat-fim':
+		'<|im_start|>system\nYou are a concise code completion engine. Only output code, nothing else.<|im_end|>\n' +
+		`<|im_start|>user\n<|fim_prefix|>${PLAIN_PREFIX}<|fim_suffix|>;\n<|fim_middle|><|im_end|>\n` +
+		'<|im_start|>assistant\n',
+	'qwen-fim':
+		'<|repo_name|>demo\n<|file_sep|>util.ts\nexport const one = 1;\n<|file_sep|>main.ts\n' +
+		'<|fim_prefix|>const a = <|fim_suffix|>;\n<|fim_middle|>',
+	'starcoder2':
+		'<repo_name>demo\n<file_sep>util.ts\nexport const one = 1;\n<file_sep>main.ts\n' +
+		'<fim_prefix>const a = <fim_suffix>;\n<fim_middle>',
+	'deepseek-coder': `<｜fim▁begin｜>${PLAIN_PREFIX}<｜fim▁hole｜>;\n<｜fim▁end｜>`,
+	'codellama': `<PRE> ${PLAIN_PREFIX} <SUF>;\n <MID>`
+};
+
+suite('FIM Templates Test Suite', () => {
+	const files: string[] = [];
+
+	teardown(() => {
+		files.splice(0).forEach(file => fs.rmSync(file, { force: true }));
+	});
+
+	// Writes user templates to a temporary JSON file
+	function templatesFile(templates: unknown[]): string {
+		const file = path.join(os.tmpdir(), `code-suggestions-templates-${process.pid}-${files.length}.json`);
+		fs.writeFileSync(file, JSON.stringify(templates));
+		files.push(file);
+		return file;
+	}
+
+	test('Every built-in template renders its own FIM structure', () => {
+		assert.deepStrictEqual(BUILT_IN_TEMPLATES.map(template => template.name).sort(), Object.keys(EXPECTED_PROMPTS).sort());
+		for (const template of BUILT_IN_TEMPLATES) {
+			assert.strictEqual(renderPrompt(template, PARTS), EXPECTED_PROMPTS[template.name], template.name);
+		}
+	});
+
+	test('The default is qwen-chat-fim, unknown names list the available templates', () => {
+		assert.strictEqual(resolveTemplate().name, 'qwen-chat-fim');
+		assert.strictEqual(resolveTemplate('starcoder2').name, 'starcoder2');
+		assert.throws(() => resolveTemplate('gpt-fim'), /Unknown FIM template "gpt-fim", available: qwen-chat-fim, qwen-fim/);
+	});
+
+	test('User templates are added or replace built-in ones, with defaults for raw and stop', () => {
+		const file = templatesFile([
+			{ name: 'mine', prefixToken: '<P>', suffixToken: '<S>', middleToken: '<M>' },
+			{ ...BUILT_IN_TEMPLATES[2], stop: ['<custom>'] }
+		]);
+		const templates = loadTemplates(file);
+
+		const mine = resolveTemplate('mine', file);
+		assert.strictEqual(mine.raw, true);
+		assert.deepStrictEqual(mine.stop, []);
+		assert.strictEqual(renderPrompt(mine, { ...PARTS, contextFiles: [], activePath: '' }), '<P>const a = <S>;\n<M>');
+		assert.deepStrictEqual(templates.get('starcoder2')!.stop, ['<custom>']);
+		assert.strictEqual(templates.size, BUILT_IN_TEMPLATES.length + 1);
+	});
+
+	test('A user template without one of the FIM tokens is rejected', () => {
+		const file = templatesFile([{ name: 'broken', prefixToken: '<P>', middleToken: '<M>' }]);
+
+		assert.throws(() => loadTemplates(file), /Template broken is missing "suffixToken"/);
+		assert.throws(() => loadTemplates(templatesFile([{ prefixToken: '<P>' }])), /Template \(unnamed\) is missing "name"/);
+	});
+
+	test('Stop sequences include the plain file separator only for templates that use it', () => {
+		assert.deepStrictEqual(stopSequencesFor(resolveTemplate('qwen-fim')), resolveTemplate('qwen-fim').stop);
+		assert.ok(stopSequencesFor(resolveTemplate('qwen-fim')).includes('<|file_sep|>'));
+		assert.deepStrictEqual(stopSequencesFor(resolveTemplate('codellama')), ['<EOT>', '</s>', '<PRE>', '<SUF>', '<MID>', FILE_SEPARATOR]);
+		assert.ok(stopSequencesFor(resolveTemplate('qwen-chat-fim')).includes('<|im_end|>'));
+		assert.ok(stopSequencesFor(resolveTemplate('deepseek-coder')).includes(FILE_SEPARATOR));
+	});
+});
@@ -0,0 +1,59 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+// --- Local HTTP Servers for Tests ---
+
+export interface TestServer {
+	url: string;
+	close(): Promise<void>;
+}
+
+// Starts an HTTP server on a free local port and returns its base URL
+export function listen(handler: http.RequestListener): Promise<TestServer> {
+	return new Promise(resolve => {
+		const server = http.createServer(handler);
+		server.listen(0, '127.0.0.1', () => {
+			const { port } = server.address() as AddressInfo;
+			resolve({
+				url: `http://127.0.0.1:${port}`,
+				close: () => new Promise(done => {
+					server.closeAllConnections();
+					server.close(() => done());
+				})
+			});
+		});
+	});
+}
+
+// A mock backend: records the last request and answers with the given handler
+export interface MockServer extends TestServer {
+	lastPath?: string;
+	lastBody?: any;
+	lastHeaders?: http.IncomingHttpHeaders;
+}
+
+export async function startMockServer(handler: (body: any, res: http.ServerResponse) => void): Promise<MockServer> {
+	const mock: Partial<MockServer> = {};
+	const server = await listen((req, res) => {
+		let raw = '';
+		req.on('data', chunk => raw += chunk);
+		req.on('end', () => {
+			mock.lastPath = req.url;
+			mock.lastHeaders = req.headers;
+			mock.lastBody = JSON.parse(raw);
+			handler(mock.lastBody, res);
+		});
+	});
+	return Object.assign(mock, server);
+}
+
+// Polls until `condition` holds (servers react to closed connections asynchronously)
+export async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+	const startedAt = Date.now();
+	while (!condition()) {
+		if (Date.now() - startedAt > timeoutMs) {
+			throw new Error('Timed out waiting for the condition');
+		}
+		await new Promise(resolve => setTimeout(resolve, 10));
+	}
+}
@@ -0,0 +1,58 @@
+import * as vscode from 'vscode';
+import { lineCommentFor } from './languageSupport';
+
+// --- Automatic Trigger Heuristics ---
+
+/**
+ * Tells whether the text before the cursor (on the current line) ends inside a string or a line comment.
+ * A simple scanner: it tracks quotes and escapes, block comments spanning lines are not detected.
+ */
+function isInsideStringOrComment(lineBefore: string, languageId: string): boolean {
+    const lineComment = lineCommentFor(languageId);
+    let quote: string | undefined;
+
+    for (let i = 0; i < lineBefore.length; i++) {
+        const char = lineBefore[i];
+
+        if (quote) {
+            if (char === '\\') {
+                i++; // Skip the escaped character
+            } else if (char === quote) {
+                quote = undefined;
+            }
+            continue;
+        }
+
+        if (char === '"' || char === "'" || char === '`') {
+            quote = char;
+        } else if (lineComment && lineBefore.startsWith(lineComment, i)) {
+            return true;
+        } else if (lineBefore.startsWith('/*', i) && !lineBefore.includes('*/', i + 2)) {
+            return true;
+        }
+    }
+    return quote !== undefined;
+}
+
+/**
+ * Returns the reason an automatic (as-you-type) completion is unlikely to help at this position,
+ * or undefined when it is worth asking the model.
+ */
+export function automaticTriggerSkipReason(document: vscode.TextDocument, position: vscode.Position): string | undefined {
+    const lineText = document.lineAt(position.line).text;
+    const lineBefore = lineText.substring(0, position.character);
+    const lineAfter = lineText.substring(position.character);
+
+    // Typing in the middle of a word: the model would have to guess the rest of an identifier we already see
+    if (/\w$/.test(lineBefore) && /^\w/.test(lineAfter)) {
+        return 'mid-identifier';
+    }
+    if (isInsideStringOrComment(lineBefore, document.languageId)) {
+        return 'inside string or comment';
+    }
+    // A block was just closed, the next statement is rarely predictable from here
+    if (/}\s*$/.test(lineBefore) && lineAfter.trim().length === 0) {
+        return 'after closing brace';
+    }
+    return undefined;
+}